@@ -82,6 +82,9 @@ class Application {
         'call': this.callStateCallback.bind(this),
         'contact-service': this.contactServiceCallback.bind(this),
         'history-filter': this.historyFilterStateCallback.bind(this),
+      }, {
+        // The callbacks await further requests, so the events of each call are handled one at a time
+        callbackDispatch: {order: 'target'},
       });
       this.connectionManager = new Z5RPC.ConnectionManager(this.rpcManager, {
         url: 'ws://127.0.0.1:25000/',
@@ -221,9 +224,9 @@ class Application {
 
   async dial() {
     const phoneNumber = this.phoneNumberInput.value;
-    const constants = await this.zoiperAPI.constants;
+    const {constants} = this.rpcManager;
     await this.zoiperAPI.createCall(phoneNumber, false, '', async (result, call) => {
-      if (result === await constants.EAPI_ERROR_OK) {
+      if (result === constants.EAPI_ERROR_OK) {
         this.logMessage(`Created a call with "${await call.phone}"`);
       } else {
         this.logMessage(`Failed to create a call (result: "${call})"`);
@@ -265,16 +268,16 @@ class Application {
   }
 
   async filterContacts() {
-    const constants = await this.zoiperAPI.constants;
+    const {constants} = this.rpcManager;
     const contactList = await this.zoiperAPI.contacts;
     const result = await contactList.filter(
       this.contactFilterInput.value,
-      await constants.ECONTACTS_SORT_NAME,
-      await constants.ECONTACT_TYPE_UNKNOWN,
+      constants.ECONTACTS_SORT_NAME,
+      constants.ECONTACT_TYPE_UNKNOWN,
       false,
     );
 
-    if (result === await constants.EAPI_ERROR_OK) {
+    if (result === constants.EAPI_ERROR_OK) {
       this.logMessage('Contact search started');
     } else {
       this.logMessage('Contact search did not start, most probably the filter did not change');
@@ -303,7 +306,7 @@ class Application {
   }
 
   async listHistoryCalls(historyFilter) {
-    const constants = await this.zoiperAPI.constants;
+    const {constants} = this.rpcManager;
     const historyService = await this.zoiperAPI.historyService;
     const historyFilterIdent = await historyFilter.ident;
     const historyList = await historyFilter.histories;
@@ -322,30 +325,30 @@ class Application {
         let callOutcome;
 
         switch (await callSummary.origin) {
-          case await constants.EORIGIN_LOCAL:
+          case constants.EORIGIN_LOCAL:
             if (established) {
               callOutcome = 'Call to ?, answered.';
             } else {
-              if (terminationOrigin === await constants.EORIGIN_LOCAL) {
+              if (terminationOrigin === constants.EORIGIN_LOCAL) {
                 callOutcome = 'Call to ?, no answer.';
-              } else if (terminationOrigin === await constants.EORIGIN_REMOTE) {
+              } else if (terminationOrigin === constants.EORIGIN_REMOTE) {
                 callOutcome = 'Call to ?, rejected.';
-              } else if (terminationOrigin === await constants.EORIGIN_FAILURE) {
+              } else if (terminationOrigin === constants.EORIGIN_FAILURE) {
                 callOutcome = 'Call to ?, failed.';
               } else {
                 callOutcome = 'Call to ?.';
               }
             }
             break;
-          case await constants.EORIGIN_REMOTE:
+          case constants.EORIGIN_REMOTE:
             if (established) {
               callOutcome = 'Call from ?, answered.';
             } else {
-              if (terminationOrigin === await constants.EORIGIN_LOCAL) {
+              if (terminationOrigin === constants.EORIGIN_LOCAL) {
                 callOutcome = 'Call from ?, rejected.';
-              } else if (terminationOrigin === await constants.EORIGIN_REMOTE) {
+              } else if (terminationOrigin === constants.EORIGIN_REMOTE) {
                 callOutcome = 'Missed call from ?.';
-              } else if (terminationOrigin === await constants.EORIGIN_FAILURE) {
+              } else if (terminationOrigin === constants.EORIGIN_FAILURE) {
                 callOutcome = 'Call from ?, failed.';
               } else {
                 callOutcome = 'Call from ?.';
@@ -377,16 +380,16 @@ class Application {
   }
 
   async filterHistoryCalls() {
-    const constants = await this.zoiperAPI.constants;
+    const {constants} = this.rpcManager;
     const historyService = await this.zoiperAPI.historyService;
     await historyService.addFilter(async (result, historyFilter) => {
-      if (result === await constants.EAPI_ERROR_OK) {
+      if (result === constants.EAPI_ERROR_OK) {
         const historyFilterIdent = await historyFilter.ident;
 
         this.logMessage(`Added history filter: ${historyFilterIdent}`);
 
-        await historyFilter.addType(await constants.EHISTORY_TYPE_CALL);
-        await historyFilter.apply(await constants.EHISTORY_GROUP_MODE_EVENT, MAX_LIST_HISTORY_CALLS);
+        await historyFilter.addType(constants.EHISTORY_TYPE_CALL);
+        await historyFilter.apply(constants.EHISTORY_GROUP_MODE_EVENT, MAX_LIST_HISTORY_CALLS);
 
         this.historyFilterSet.add(historyFilterIdent);
       } else {
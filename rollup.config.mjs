@@ -1,29 +1,46 @@
 import typescript from '@rollup/plugin-typescript';
 
-/** @type {import('rollup').RollupOptions} */
-export default {
-  input: 'src/index.ts',
-  output: [
-    {
-      file: 'dist/zoiper5-rpc-api-js-wrapper.umd.js',
-      format: 'umd',
-      globals: {
-        'simple-jsonrpc-js': 'simple_jsonrpc',
+/** @type {import('rollup').RollupOptions[]} */
+export default [
+  {
+    input: 'src/index.ts',
+    output: [
+      {
+        file: 'dist/zoiper5-rpc-api-js-wrapper.umd.js',
+        format: 'umd',
+        globals: {
+          'simple-jsonrpc-js': 'simple_jsonrpc',
+        },
+        name: 'Z5RPC',
+        sourcemap: true,
       },
-      name: 'Z5RPC',
-      sourcemap: true,
-    },
-    {
-      file: 'dist/zoiper5-rpc-api-js-wrapper.esm.js',
-      format: 'esm',
-      sourcemap: true,
+      {
+        file: 'dist/zoiper5-rpc-api-js-wrapper.esm.js',
+        format: 'esm',
+        sourcemap: true,
+      },
+    ],
+    external: ['simple-jsonrpc-js'],
+    plugins: [
+      typescript({
+        declaration: true,
+        declarationDir: 'types',
+      }),
+    ],
+  },
+  {
+    input: 'src/cli/index.ts',
+    output: {
+      file: 'dist/cli.js',
+      format: 'cjs',
+      banner: '#!/usr/bin/env node',
     },
-  ],
-  external: ['simple-jsonrpc-js'],
-  plugins: [
-    typescript({
-      declaration: true,
-      declarationDir: 'types',
-    }),
-  ],
-};
+    external: ['simple-jsonrpc-js', 'fs', 'repl', 'util'],
+    plugins: [
+      typescript({
+        outDir: 'dist',
+        sourceMap: false,
+      }),
+    ],
+  },
+];
@@ -0,0 +1,108 @@
+/**
+ * The kind of member access checked against an {@link AccessPolicy}.
+ */
+export type MemberAccessType = 'get' | 'set' | 'call';
+
+/**
+ * An attempt to access a member of an object obtained from the server, passed to {@link AccessPolicy.confirm()}.
+ */
+export interface MemberAccess {
+  type: MemberAccessType;
+  /**
+   * The path of the member, e.g. `optionsGeneral.recordCalls` or `activeCall.hangup`,
+   * `undefined` if the object it belongs to was obtained in several ways,
+   * or in a way that can't be told apart from others.
+   */
+  path?: string;
+  memberName: string;
+  /**
+   * The new value of a property, or the method arguments.
+   */
+  args: unknown[];
+}
+
+/**
+ * Restricts the members that can be accessed through a {@link RPCManager}, see {@link RPCManagerOptions.accessPolicy}.
+ *
+ * Members are matched by their path, which describes how the object was obtained, starting from the root object,
+ * e.g. `activeCall.contact.name`. The API doesn't expose the classes of the objects, so objects of the same class
+ * are matched by a pattern covering the ways they are obtained, e.g. `@call[0].*` for the calls passed
+ * to the `call` global callback, or `calls.*.*` for the items of `Phone.calls`.
+ * In patterns, `*` matches any part of a path segment, and `**` any number of segments.
+ *
+ * Objects whose path can't be determined, e.g. the ones obtained in several ways, are treated as matching
+ * every `deny` pattern, and no other pattern.
+ */
+export interface AccessPolicy {
+  /**
+   * Patterns of the members that can be accessed. If set, other members are denied.
+   */
+  allow?: string[];
+  /**
+   * Patterns of the members that can't be accessed, even if matching {@link allow}.
+   */
+  deny?: string[];
+  /**
+   * Denies setting properties, and calling methods other than the {@link methods}.
+   */
+  readOnly?: boolean;
+  /**
+   * Patterns of the methods that can be called, e.g. `**.itemAt` to allow listing items in read-only mode.
+   * If set, other methods are denied.
+   */
+  methods?: string[];
+  /**
+   * Called before setting a property or calling a method permitted by the rules above, e.g. to ask the user.
+   * @returns Whether to proceed.
+   */
+  confirm?(access: MemberAccess): boolean | Promise<boolean>;
+}
+
+const patternCache = new Map<string, RegExp>();
+
+function compilePattern(pattern: string): RegExp {
+  let regExp = patternCache.get(pattern);
+
+  if (regExp === undefined) {
+    const source = pattern
+      .split('**')
+      .map((part) => part.split('*').map((text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[^.]*'))
+      .join('.*');
+
+    regExp = new RegExp(`^${source}$`);
+    patternCache.set(pattern, regExp);
+  }
+
+  return regExp;
+}
+
+/**
+ * Checks whether a member path matches one of the provided patterns.
+ */
+export function matchesPattern(patterns: string[], path: string): boolean {
+  return patterns.some((pattern) => compilePattern(pattern).test(path));
+}
+
+/**
+ * Checks a member access against the rules of a policy, except {@link AccessPolicy.confirm()}.
+ * @returns Why the access is denied, or `undefined` if it is permitted.
+ */
+export function getAccessDenial(policy: AccessPolicy, access: MemberAccess): string | undefined {
+  const {type, path} = access;
+
+  if (type === 'set' && policy.readOnly) {
+    return 'the access policy is read-only';
+  }
+
+  if (type === 'call' && (policy.methods ? path === undefined || !matchesPattern(policy.methods, path) : policy.readOnly)) {
+    return policy.methods ? 'the method is not allowed by the access policy' : 'the access policy is read-only';
+  }
+
+  if (policy.deny && (path === undefined || matchesPattern(policy.deny, path))) {
+    return 'the member is denied by the access policy';
+  }
+
+  if (policy.allow && (path === undefined || !matchesPattern(policy.allow, path))) {
+    return 'the member is not allowed by the access policy';
+  }
+}
@@ -0,0 +1,194 @@
+import {
+  API_SERVER_METHOD_GET_VALUE,
+  API_SERVER_METHOD_SET_VALUE,
+  API_SERVER_METHOD_CALL_FUNCTION,
+} from '../const/rpc-server-methods';
+import {describeObject} from '../describe-object';
+import {RemoteError} from '../errors';
+import {RPCManager} from '../rpc-manager';
+import {ERROR_CODE_INTERNAL_ERROR, ScriptObjectRegistry, ServerSession} from '../server-session';
+import {LoopbackEndpoint, LoopbackTransport} from '../transports/loopback-transport';
+import {decodeWsMessage} from '../transports/node-websocket-transport';
+
+const METHOD_REGISTER_CALLBACK = 'registerCallback';
+const DEFAULT_MAX_SCRIPT_OBJECTS = 10000;
+
+export interface RPCBridgeOptions {
+  /**
+   * The API tokens accepted from the clients, e.g. one per tool sharing the phone.
+   */
+  tokens: string[];
+  /**
+   * How many objects to keep per client. Once exceeded, the objects the client used least recently are forgotten,
+   * and its requests referring to them fail. Also bounds the callbacks kept per client. Defaults to `10000`.
+   */
+  maxScriptObjects?: number;
+}
+
+/**
+ * The server side of a `ws`-compatible WebSocket connection.
+ */
+export interface ServerWebSocketLike {
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  on(event: 'message', listener: (data: unknown) => void): unknown;
+  on(event: 'close', listener: () => void): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+}
+
+/**
+ * A `ws`-compatible WebSocket server.
+ */
+export interface WebSocketServerLike {
+  on(event: 'connection', listener: (socket: ServerWebSocketLike) => void): unknown;
+}
+
+interface RPCBridgeClient {
+  endpoint: LoopbackEndpoint;
+  /**
+   * The global callback listeners added on behalf of the client.
+   */
+  listeners: [name: string, listener: (...args: unknown[]) => void][];
+}
+
+/**
+ * Shares a single Zoiper5 connection between multiple clients. Serves the RPC API protocol to each client,
+ * forwarding the requests through an initialized {@link RPCManager}. Every client authenticates with its own token,
+ * and gets its own object IDs. Global callbacks registered by the clients are delivered to each of them.
+ *
+ * ```js
+ * const {WebSocketServer} = require('ws');
+ * const bridge = new RPCBridge(rpcManager, zoiperAPI, {tokens: ['crm-token', 'wallboard-token']});
+ * bridge.listen(new WebSocketServer({host: '127.0.0.1', port: 25001}));
+ * ```
+ */
+export class RPCBridge {
+  private _rpcManager: RPCManager<any, any>;
+  private _root: object;
+  private _options: RPCBridgeOptions;
+  private _clients: Set<RPCBridgeClient>;
+
+  constructor(rpcManager: RPCManager<any, any>, root: object, options: RPCBridgeOptions) {
+    this._rpcManager = rpcManager;
+    this._root = root;
+    this._options = options;
+    this._clients = new Set();
+  }
+
+  /**
+   * The number of connected clients.
+   */
+  get connectionCount(): number {
+    return this._clients.size;
+  }
+
+  /**
+   * Serves the connections of a WebSocket server, e.g. a `ws` `WebSocketServer`.
+   */
+  listen(server: WebSocketServerLike): void {
+    server.on('connection', (socket) => {
+      const endpoint: LoopbackEndpoint = {
+        send: (message) => socket.send(message),
+        close: () => socket.close(),
+      };
+
+      socket.on('message', (data) => endpoint.onMessage?.(decodeWsMessage(data)));
+      socket.on('close', () => endpoint.onClose?.({code: 1000, reason: '', wasClean: true}));
+      // Without a listener, `ws` rethrows socket errors, e.g. invalid frames, which would end the process
+      socket.on('error', () => socket.close());
+      this.accept(endpoint);
+    });
+  }
+
+  /**
+   * Creates a transport connected to this bridge, to be used by a {@link ConnectionManager} in the same process.
+   */
+  createTransport(): LoopbackTransport {
+    return new LoopbackTransport((endpoint) => this.accept(endpoint));
+  }
+
+  /**
+   * Serves a client connection.
+   * @param endpoint The server side of the connection.
+   */
+  accept(endpoint: LoopbackEndpoint): void {
+    const client: RPCBridgeClient = {endpoint, listeners: []};
+    const session = new ServerSession(endpoint, {
+      root: this._root,
+      tokens: this._options.tokens,
+      registry: new ScriptObjectRegistry(this._options.maxScriptObjects ?? DEFAULT_MAX_SCRIPT_OBJECTS),
+      describe: describeObject,
+      closeOnInvalidMessage: true,
+    });
+
+    const forward = async (request: () => Promise<unknown>): Promise<unknown> => {
+      try {
+        return session.serialize(await request());
+      } catch (ex) {
+        if (ex instanceof RemoteError) {
+          return session.fail(ex.code, ex.message, ex.data);
+        }
+
+        return session.fail(ERROR_CODE_INTERNAL_ERROR, ex instanceof Error ? ex.message : String(ex));
+      }
+    };
+
+    const registerCallback = (name: string, callback: Function) => {
+      // The callback is shared by all clients, so each client gets its own listener instead
+      const listener = (...args: unknown[]) => {
+        callback(...args).catch(() => {
+          // The client failed to handle the callback, or is gone
+        });
+      };
+
+      client.listeners.push([name, listener]);
+      this._rpcManager.on(name, listener);
+
+      return (this._rpcManager.constants as Record<string, number>).EAPI_ERROR_OK;
+    };
+
+    session.on(API_SERVER_METHOD_GET_VALUE, (serializedTarget: unknown, propertyName: string) => {
+      const target = session.resolveTarget(serializedTarget);
+
+      return forward(() => this._rpcManager.get(target, propertyName));
+    });
+
+    session.on(API_SERVER_METHOD_SET_VALUE, (serializedTarget: unknown, propertyName: string, value: unknown) => {
+      const target = session.resolveTarget(serializedTarget);
+
+      return forward(async () => {
+        await this._rpcManager.set(target, propertyName, session.deserialize(value));
+
+        return true;
+      });
+    });
+
+    session.on(API_SERVER_METHOD_CALL_FUNCTION, (serializedTarget: unknown, methodName: string, ...args: unknown[]) => {
+      const target = session.resolveTarget(serializedTarget);
+      const deserializedArgs = args.map((arg) => session.deserialize(arg));
+
+      if (target === this._root && methodName === METHOD_REGISTER_CALLBACK && typeof deserializedArgs[1] === 'function') {
+        return registerCallback(deserializedArgs[0] as string, deserializedArgs[1]);
+      }
+
+      return forward(() => this._rpcManager.call(target, methodName, deserializedArgs));
+    });
+
+    session.onClose = () => {
+      this._clients.delete(client);
+
+      for (const [name, listener] of client.listeners) {
+        this._rpcManager.off(name, listener);
+      }
+    };
+
+    this._clients.add(client);
+  }
+
+  /**
+   * Closes all client connections. The upstream connection stays open.
+   */
+  closeConnections(): void {
+    this._clients.forEach(({endpoint}) => endpoint.close());
+  }
+}
@@ -0,0 +1,361 @@
+import {ResultError} from './errors';
+import {RPCManager} from './rpc-manager';
+
+/**
+ * The state of a {@link Call}:
+ * - `ringing` - an incoming call waiting to be answered
+ * - `dialing` - an outgoing call waiting for the remote party to answer
+ * - `active` - an established call
+ * - `on-hold` - an established call put on hold
+ * - `ended` - a call that was hung up, rejected or transferred
+ */
+export type CallState = 'ringing' | 'dialing' | 'active' | 'on-hold' | 'ended';
+
+export type CallDirection = 'incoming' | 'outgoing';
+
+export interface DialOptions {
+  video?: boolean;
+  /**
+   * The name of the account to dial from. Defaults to the default account.
+   */
+  account?: string;
+}
+
+/**
+ * The API call object - an item of `Phone.calls`, or the value of `Phone.activeCall`.
+ */
+interface CallObject {
+  readonly phone: Promise<string>;
+  readonly isIncoming: Promise<boolean>;
+  readonly isRinging: Promise<boolean>;
+  readonly isOnHold: Promise<boolean>;
+  readonly isRecording: Promise<boolean>;
+  accept(video: boolean): Promise<number>;
+  hangup(): Promise<number>;
+  hold(onHold: boolean): Promise<number>;
+  transfer(number: string): Promise<number>;
+  record(enable: boolean): Promise<number>;
+}
+
+interface PhoneObject {
+  readonly calls: Promise<any>;
+  createCall(number: string, video: boolean, account: string, callback: (result: number, call: CallObject) => unknown): Promise<number>;
+}
+
+/**
+ * A call tracked by a {@link CallController}. The state gets updated by the `call` global callback.
+ */
+export class Call {
+  /**
+   * The API call object.
+   */
+  readonly object: CallObject;
+  readonly number: string;
+  readonly direction: CallDirection;
+  private _state: CallState;
+  private _isRecording: boolean;
+  private _checkResult: (result: number, memberName: string) => void;
+
+  constructor(
+    object: CallObject,
+    number: string,
+    direction: CallDirection,
+    state: CallState,
+    isRecording: boolean,
+    checkResult: (result: number, memberName: string) => void,
+  ) {
+    this.object = object;
+    this.number = number;
+    this.direction = direction;
+    this._state = state;
+    this._isRecording = isRecording;
+    this._checkResult = checkResult;
+  }
+
+  get state(): CallState {
+    return this._state;
+  }
+
+  get isRecording(): boolean {
+    return this._isRecording;
+  }
+
+  /**
+   * Answers a ringing incoming call.
+   * @throws {ResultError} When the call can't be answered, e.g. it stopped ringing.
+   */
+  answer(video: boolean = false): Promise<void> {
+    return this._execute('accept', [video]);
+  }
+
+  /**
+   * Rejects a ringing incoming call.
+   */
+  reject(): Promise<void> {
+    return this._execute('hangup', []);
+  }
+
+  hangup(): Promise<void> {
+    return this._execute('hangup', []);
+  }
+
+  hold(): Promise<void> {
+    return this._execute('hold', [true]);
+  }
+
+  unhold(): Promise<void> {
+    return this._execute('hold', [false]);
+  }
+
+  /**
+   * Transfers the call to another number, ending it.
+   */
+  transfer(number: string): Promise<void> {
+    return this._execute('transfer', [number]);
+  }
+
+  startRecording(): Promise<void> {
+    return this._execute('record', [true]);
+  }
+
+  stopRecording(): Promise<void> {
+    return this._execute('record', [false]);
+  }
+
+  private async _execute(methodName: 'accept' | 'hangup' | 'hold' | 'transfer' | 'record', args: (boolean | string)[]): Promise<void> {
+    const method = this.object[methodName] as (...args: (boolean | string)[]) => Promise<number>;
+
+    this._checkResult(await method(...args), methodName);
+  }
+
+  /**
+   * Applies an event of the `call` global callback.
+   * @returns Whether the event changed the call.
+   * @internal
+   */
+  _applyEvent(event: string): boolean {
+    const state = this._state;
+    const isRecording = this._isRecording;
+
+    switch (event) {
+      case 'accepted':
+      case 'active_call':
+      case 'unhold':
+        this._state = 'active';
+        break;
+      case 'hold':
+        this._state = 'on-hold';
+        break;
+      case 'hangup':
+      case 'transferred':
+        this._state = 'ended';
+        break;
+      case 'recording_started':
+        this._isRecording = true;
+        break;
+      case 'recording_stopped':
+        this._isRecording = false;
+        break;
+    }
+
+    return this._state !== state || this._isRecording !== isRecording;
+  }
+}
+
+/**
+ * Tracks the calls of the phone via the `call` global callback, and provides promise based call operations
+ * that reject with a {@link ResultError} when the phone reports a failure.
+ *
+ * ```js
+ * const callController = new CallController(rpcManager, zoiperAPI);
+ * callController.onCallUpdate = (call, event) => console.log(call.number, call.state, event);
+ * await callController.start();
+ *
+ * const call = await callController.dial('1001');
+ * await call.startRecording();
+ * await callController.incomingCalls[0]?.answer();
+ * ```
+ */
+export class CallController {
+  private _rpcManager: RPCManager<any, any>;
+  private _root: PhoneObject;
+  private _calls: Call[];
+  private _callMap: Map<CallObject, Promise<Call>>;
+  private _activeCall: Call | undefined;
+  private _isStarted: boolean;
+  private _eventQueue: Promise<void>;
+  private _callListener: (call: CallObject | null, event: string) => Promise<void>;
+
+  /**
+   * Called when a call gets added, changes its state, becomes the active call, or ends.
+   * @param call The affected call.
+   * @param event The event of the `call` global callback, e.g. `incoming`, `accepted` or `hangup`.
+   */
+  onCallUpdate?(call: Call, event: string): void;
+
+  constructor(rpcManager: RPCManager<any, any>, root: object) {
+    this._rpcManager = rpcManager;
+    this._root = root as PhoneObject;
+    this._calls = [];
+    this._callMap = new Map();
+    this._isStarted = false;
+    this._eventQueue = Promise.resolve();
+    this._callListener = (call, event) => {
+      // Events are applied in the order of their arrival, even when creating their call takes longer
+      const update = this._eventQueue.then(() => this._handleCallEvent(call, event));
+
+      this._eventQueue = update.catch(() => undefined);
+
+      return update;
+    };
+  }
+
+  /**
+   * The calls that haven't ended, in the order they were added.
+   */
+  get calls(): readonly Call[] {
+    return [...this._calls];
+  }
+
+  get incomingCalls(): readonly Call[] {
+    return this._calls.filter((call) => call.state === 'ringing');
+  }
+
+  get activeCall(): Call | undefined {
+    return this._activeCall;
+  }
+
+  /**
+   * Starts listening to the `call` global callback and loads the existing calls.
+   */
+  async start(): Promise<void> {
+    if (this._isStarted) {
+      return;
+    }
+
+    this._isStarted = true;
+    this._rpcManager.on('call', this._callListener);
+
+    const callObjects = await this._rpcManager.list<CallObject>(this._root.calls, {skipFailedItems: true}).toArray();
+
+    for (const callObject of callObjects) {
+      await this._getCall(callObject);
+    }
+  }
+
+  /**
+   * Stops listening to the `call` global callback. The calls are no longer updated.
+   */
+  stop(): void {
+    this._isStarted = false;
+    this._rpcManager.off('call', this._callListener);
+  }
+
+  /**
+   * Creates an outgoing call.
+   * @param number The number to dial.
+   * @throws {ResultError} When the phone fails to create the call.
+   */
+  async dial(number: string, options: DialOptions = {}): Promise<Call> {
+    const {video = false, account = ''} = options;
+    let response: {result: number, call: CallObject} | undefined;
+
+    // Same as for list items, the callback is only known to the manager while `createCall` is in progress
+    const result = await this._root.createCall(number, video, account, (callbackResult, call) => {
+      response = {result: callbackResult, call};
+    });
+
+    this._checkResult(result, 'createCall');
+
+    if (response === undefined) {
+      throw new Error('The phone did not provide the call');
+    }
+
+    this._checkResult(response.result, 'createCall');
+
+    return this._getCall(response.call, 'outgoing');
+  }
+
+  private async _handleCallEvent(callObject: CallObject | null, event: string): Promise<void> {
+    if (callObject === null) {
+      if (event === 'active_call') {
+        this._activeCall = undefined;
+      }
+
+      return;
+    }
+
+    const isNew = !this._callMap.has(callObject);
+
+    // The call ended before it could be tracked
+    if (isNew && (event === 'hangup' || event === 'transferred')) {
+      return;
+    }
+
+    const call = await this._getCall(callObject, event === 'outgoing' ? 'outgoing' : event === 'incoming' ? 'incoming' : undefined);
+
+    const activeCall = this._activeCall;
+
+    if (event === 'accepted' || event === 'active_call') {
+      this._activeCall = call;
+    }
+
+    if (call._applyEvent(event) || isNew || this._activeCall !== activeCall) {
+      if (call.state === 'ended') {
+        this._removeCall(call);
+      }
+
+      this.onCallUpdate?.(call, event);
+    }
+  }
+
+  private _getCall(callObject: CallObject, direction?: CallDirection): Promise<Call> {
+    let call = this._callMap.get(callObject);
+
+    if (call === undefined) {
+      call = this._createCall(callObject, direction);
+      this._callMap.set(callObject, call);
+      call.catch(() => this._callMap.delete(callObject));
+    }
+
+    return call;
+  }
+
+  private async _createCall(callObject: CallObject, direction?: CallDirection): Promise<Call> {
+    const {phone, isIncoming, isRinging, isOnHold, isRecording} = await this._rpcManager.read(
+      callObject,
+      ['phone', 'isIncoming', 'isRinging', 'isOnHold', 'isRecording'],
+    ) as {phone: string, isIncoming: boolean, isRinging: boolean, isOnHold: boolean, isRecording: boolean};
+    const callDirection = direction ?? (isIncoming ? 'incoming' : 'outgoing');
+    let state: CallState = 'active';
+
+    if (isRinging) {
+      state = callDirection === 'incoming' ? 'ringing' : 'dialing';
+    } else if (isOnHold) {
+      state = 'on-hold';
+    }
+
+    const call = new Call(callObject, phone, callDirection, state, isRecording, (result, memberName) => {
+      this._checkResult(result, memberName);
+    });
+
+    this._calls.push(call);
+
+    return call;
+  }
+
+  private _removeCall(call: Call): void {
+    this._calls.splice(this._calls.indexOf(call), 1);
+    this._callMap.delete(call.object);
+
+    if (this._activeCall === call) {
+      this._activeCall = undefined;
+    }
+  }
+
+  private _checkResult(result: number, memberName: string): void {
+    if (result !== (this._rpcManager.constants as Record<string, number>).EAPI_ERROR_OK) {
+      throw new ResultError(result, {memberName}, this._rpcManager.getConstantName(result, 'EAPI_ERROR_'));
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import {parseArgs} from 'util';
+import {CONNECTION_OPTIONS, openSession} from './session';
+import {parseValue, resolveParent, resolvePath, toJSONValue} from './explore';
+
+const DEFAULT_CALLBACK_NAMES = ['phone', 'call', 'contact-service', 'history-filter'];
+
+export const GET_USAGE = `Usage: zoiper5-rpc-api get [options] [path]
+
+Prints the value of a property path, e.g. "accounts.defaultAccount.name", as JSON.
+Objects are printed with the values of their properties. Without a path, prints the root object.
+
+Options:
+${CONNECTION_OPTIONS}`;
+
+export const SET_USAGE = `Usage: zoiper5-rpc-api set [options] <path> <value>
+
+Sets a property, e.g. "optionsGeneral.recordCalls true". The value is parsed as JSON when possible,
+so strings of digits need to be quoted, e.g. '"1001"'.
+
+Options:
+${CONNECTION_OPTIONS}`;
+
+export const CALL_USAGE = `Usage: zoiper5-rpc-api call [options] <path> [args...]
+
+Calls a method, e.g. "createCall '\\"1001\\"' false '\\"\\"' --callback", and prints the result as JSON.
+The arguments are parsed as JSON when possible, so strings of digits need to be quoted, e.g. '"1001"'.
+
+Options:
+${CONNECTION_OPTIONS}
+  --callback           Pass a callback as the last argument, printing its arguments as JSON`;
+
+export const TAIL_USAGE = `Usage: zoiper5-rpc-api tail [options] [names...]
+
+Prints the invocations of global callbacks as JSON lines, until interrupted.
+The names default to ${DEFAULT_CALLBACK_NAMES.map((name) => `"${name}"`).join(', ')}.
+
+Options:
+${CONNECTION_OPTIONS}`;
+
+const connectionOptions = {
+  url: {type: 'string'},
+  token: {type: 'string'},
+} as const;
+
+function printJSON(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+export async function runGet(args: string[]): Promise<void> {
+  const {values, positionals: [path = '']} = parseArgs({args, options: connectionOptions, allowPositionals: true});
+  const session = await openSession({url: values.url, token: values.token});
+
+  try {
+    printJSON(await toJSONValue(session.rpcManager, await resolvePath(session.rpcManager, session.rootObject, path)));
+  } finally {
+    session.close();
+  }
+}
+
+export async function runSet(args: string[]): Promise<void> {
+  const {values, positionals} = parseArgs({args, options: connectionOptions, allowPositionals: true});
+
+  if (positionals.length !== 2) {
+    throw new Error(SET_USAGE);
+  }
+
+  const session = await openSession({url: values.url, token: values.token});
+
+  try {
+    const {parent, name} = await resolveParent(session.rpcManager, session.rootObject, positionals[0]);
+
+    await session.rpcManager.set(parent, name, parseValue(positionals[1]));
+  } finally {
+    session.close();
+  }
+}
+
+export async function runCall(args: string[]): Promise<void> {
+  const {values, positionals: [path, ...methodArgs]} = parseArgs({
+    args,
+    options: {...connectionOptions, callback: {type: 'boolean'}},
+    allowPositionals: true,
+  });
+
+  if (path === undefined) {
+    throw new Error(CALL_USAGE);
+  }
+
+  const session = await openSession({url: values.url, token: values.token});
+
+  try {
+    const {rpcManager} = session;
+    const {parent, name} = await resolveParent(rpcManager, session.rootObject, path);
+    const parsedArgs = methodArgs.map(parseValue);
+
+    if (values.callback) {
+      parsedArgs.push(async (...callbackArgs: unknown[]) => {
+        printJSON({callback: await Promise.all(callbackArgs.map((arg) => toJSONValue(rpcManager, arg)))});
+      });
+    }
+
+    printJSON(await toJSONValue(rpcManager, await rpcManager.call(parent, name, parsedArgs)));
+  } finally {
+    session.close();
+  }
+}
+
+export async function runTail(args: string[]): Promise<void> {
+  const {values, positionals} = parseArgs({args, options: connectionOptions, allowPositionals: true});
+  const names = positionals.length > 0 ? positionals : DEFAULT_CALLBACK_NAMES;
+  const session = await openSession({url: values.url, token: values.token});
+
+  for (const name of names) {
+    session.rpcManager.on(name, async (...callbackArgs: unknown[]) => {
+      const jsonArgs = await Promise.all(callbackArgs.map((arg) => toJSONValue(session.rpcManager, arg)));
+
+      console.log(JSON.stringify({time: new Date().toISOString(), name, args: jsonArgs}));
+    });
+  }
+
+  await new Promise<void>((resolve) => {
+    session.connectionManager.onClose = () => resolve();
+    process.once('SIGINT', () => session.close());
+  });
+}
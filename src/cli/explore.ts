@@ -0,0 +1,129 @@
+import {describeObject} from '../describe-object';
+import {RPCManager, SerializableValue} from '../rpc-manager';
+
+export function isScriptObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Splits a member path like `accounts.defaultAccount.name`, an empty path denotes the root object.
+ */
+export function splitPath(path: string): string[] {
+  return path === '' ? [] : path.split('.');
+}
+
+/**
+ * Gets the value of a property path, e.g. `accounts.defaultAccount.name`, starting from the root object.
+ */
+export async function resolvePath(rpcManager: RPCManager<any, any>, root: object, path: string): Promise<unknown> {
+  let value: unknown = root;
+  const names = splitPath(path);
+
+  for (const [index, name] of names.entries()) {
+    if (!isScriptObject(value)) {
+      throw new Error(`"${names.slice(0, index).join('.')}" is not an object`);
+    }
+
+    value = await rpcManager.get(value, name);
+  }
+
+  return value;
+}
+
+/**
+ * Resolves the object holding the last member of a path, e.g. `optionsGeneral` for `optionsGeneral.recordCalls`.
+ */
+export async function resolveParent(
+  rpcManager: RPCManager<any, any>,
+  root: object,
+  path: string,
+): Promise<{parent: object, name: string}> {
+  const names = splitPath(path);
+
+  if (names.length === 0) {
+    throw new Error('A member path is required');
+  }
+
+  const parentPath = names.slice(0, -1).join('.');
+  const parent = await resolvePath(rpcManager, root, parentPath);
+
+  if (!isScriptObject(parent)) {
+    throw new Error(`"${parentPath}" is not an object`);
+  }
+
+  return {parent, name: names[names.length - 1]};
+}
+
+/**
+ * Parses a command line value as JSON, falling back to the text itself, e.g. `true`, `42`, `'"1001"'` or `hello`.
+ */
+export function parseValue(text: string): SerializableValue {
+  try {
+    return JSON.parse(text);
+  } catch (ex) {
+    return text;
+  }
+}
+
+/**
+ * Converts a value obtained from the server to a JSON compatible one. Objects are represented by the values
+ * of their plain properties, nested objects by their property and method names.
+ */
+export async function toJSONValue(rpcManager: RPCManager<any, any>, value: unknown, expand: boolean = true): Promise<unknown> {
+  if (!isScriptObject(value)) {
+    return value ?? null;
+  }
+
+  const description = describeObject(value);
+
+  if (!expand) {
+    return description;
+  }
+
+  const entries = await Promise.all(description.properties.map(async (name) => {
+    try {
+      return [name, await toJSONValue(rpcManager, await rpcManager.get(value, name), false)];
+    } catch (ex) {
+      return [name, {error: ex instanceof Error ? ex.message : String(ex)}];
+    }
+  }));
+
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Completes a member path expression like `phone.optionsGeneral.rec`, reading the members of the objects on the way.
+ * @param context The objects the expression may start from, e.g. `{phone: zoiperAPI}`.
+ * @returns The completions of the expression, empty if it doesn't denote a member path.
+ */
+export async function completeMemberPath(
+  rpcManager: RPCManager<any, any>,
+  context: Record<string, unknown>,
+  expression: string,
+): Promise<string[]> {
+  const match = /([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\.([\w$]*)$/.exec(expression);
+
+  if (match === null) {
+    return [];
+  }
+
+  const [, basePath, prefix] = match;
+  const [contextName, ...names] = basePath.split('.');
+  let value = context[contextName];
+
+  for (const name of names) {
+    if (!isScriptObject(value) || !describeObject(value).properties.includes(name)) {
+      return [];
+    }
+
+    value = await rpcManager.get(value, name);
+  }
+
+  if (!isScriptObject(value)) {
+    return [];
+  }
+
+  const {properties, methods} = describeObject(value);
+
+  return [...properties, ...methods].filter((name) => name.startsWith(prefix)).map((name) => `${basePath}.${name}`);
+}
@@ -0,0 +1,44 @@
+import {CALL_USAGE, GET_USAGE, runCall, runGet, runSet, runTail, SET_USAGE, TAIL_USAGE} from './explore-commands';
+import {REPL_USAGE, runRepl} from './repl-command';
+import {DIFF_USAGE, runDiff, runSnapshot, SNAPSHOT_USAGE} from './snapshot-command';
+import {runTypegen, TYPEGEN_USAGE} from './typegen-command';
+
+const commands: Record<string, {run(args: string[]): Promise<void>, usage: string}> = {
+  typegen: {run: runTypegen, usage: TYPEGEN_USAGE},
+  repl: {run: runRepl, usage: REPL_USAGE},
+  get: {run: runGet, usage: GET_USAGE},
+  set: {run: runSet, usage: SET_USAGE},
+  call: {run: runCall, usage: CALL_USAGE},
+  tail: {run: runTail, usage: TAIL_USAGE},
+  snapshot: {run: runSnapshot, usage: SNAPSHOT_USAGE},
+  diff: {run: runDiff, usage: DIFF_USAGE},
+};
+
+const USAGE = `Usage: zoiper5-rpc-api <command> [options]
+
+Commands:
+${Object.keys(commands).map((name) => `  ${name}`).join('\n')}
+
+Run "zoiper5-rpc-api <command> --help" for the options of a command.`;
+
+async function main([commandName, ...args]: string[]): Promise<void> {
+  const command = commands[commandName];
+
+  if (!command) {
+    console.log(USAGE);
+    process.exitCode = commandName === undefined || commandName === '--help' ? 0 : 1;
+    return;
+  }
+
+  if (args.includes('--help')) {
+    console.log(command.usage);
+    return;
+  }
+
+  await command.run(args);
+}
+
+main(process.argv.slice(2)).catch((ex) => {
+  console.error(ex instanceof Error ? ex.message : ex);
+  process.exitCode = 1;
+});
@@ -0,0 +1,55 @@
+import {AsyncCompleter} from 'readline';
+import {start} from 'repl';
+import {parseArgs} from 'util';
+import {completeMemberPath} from './explore';
+import {CONNECTION_OPTIONS, openSession} from './session';
+
+export const REPL_USAGE = `Usage: zoiper5-rpc-api repl [options]
+
+Starts an interactive shell connected to Zoiper5. The root object is available as "phone",
+the manager as "rpcManager". Use "await", e.g. "await phone.optionsGeneral", and Tab to complete member names.
+
+Options:
+${CONNECTION_OPTIONS}`;
+
+export async function runRepl(args: string[]): Promise<void> {
+  const {values} = parseArgs({
+    args,
+    options: {
+      url: {type: 'string'},
+      token: {type: 'string'},
+    },
+  });
+  const session = await openSession({url: values.url, token: values.token});
+  const replServer = start({prompt: 'zoiper5> '});
+  const defaultCompleter = replServer.completer as AsyncCompleter;
+
+  Object.assign(replServer.context, {phone: session.rootObject, rpcManager: session.rpcManager});
+
+  // The member names of API objects are only known to the server, so they are read on the way
+  const completer: AsyncCompleter = (line, callback) => {
+    const expression = /[\w$.]*$/.exec(line)![0];
+
+    completeMemberPath(session.rpcManager, replServer.context, expression).then((completions) => {
+      if (completions.length > 0) {
+        callback(null, [completions, expression]);
+      } else {
+        defaultCompleter.call(replServer, line, callback);
+      }
+    }, () => defaultCompleter.call(replServer, line, callback));
+  };
+
+  (replServer as {completer: AsyncCompleter}).completer = completer;
+
+  session.connectionManager.onClose = () => {
+    console.log('\nConnection closed');
+    replServer.close();
+  };
+
+  await new Promise<void>((resolve) => {
+    replServer.on('exit', () => {
+      session.close();
+      resolve();
+    });
+  });
+}
@@ -0,0 +1,66 @@
+import {ConnectionManager} from '../connection-manager';
+import {RPCManager} from '../rpc-manager';
+import {WebSocketConstructor} from '../transports/websocket-transport';
+import {NodeWebSocketTransport} from '../transports/node-websocket-transport';
+
+export const DEFAULT_URL = 'ws://127.0.0.1:25000/';
+
+/**
+ * The usage lines of the options accepted by {@link openSession()}.
+ */
+export const CONNECTION_OPTIONS = `  --url <url>          The RPC server URL (default: ${DEFAULT_URL})
+  --token <token>      The API token (default: $ZOIPER5_API_TOKEN)`;
+
+export interface SessionOptions {
+  url?: string;
+  token?: string;
+  globalCallbacksMap?: Record<string, Function>;
+}
+
+export interface Session {
+  rpcManager: RPCManager;
+  connectionManager: ConnectionManager;
+  rootObject: any;
+  close(): void;
+}
+
+function loadWebSocket(): WebSocketConstructor {
+  const {WebSocket} = globalThis as {WebSocket?: WebSocketConstructor};
+
+  if (WebSocket) {
+    return WebSocket;
+  }
+
+  try {
+    return require('ws');
+  } catch (ex) {
+    throw new Error('No WebSocket implementation found, install the "ws" package');
+  }
+}
+
+/**
+ * Connects to the server and initializes the API. The token defaults to the `ZOIPER5_API_TOKEN` environment variable.
+ */
+export async function openSession(options: SessionOptions): Promise<Session> {
+  const token = options.token ?? process.env.ZOIPER5_API_TOKEN;
+
+  if (!token) {
+    throw new Error('An API token is required, pass it via --token or the ZOIPER5_API_TOKEN environment variable');
+  }
+
+  const rpcManager = new RPCManager(options.globalCallbacksMap ?? {});
+  const connectionManager = new ConnectionManager(rpcManager, {
+    transport: new NodeWebSocketTransport(options.url ?? DEFAULT_URL, loadWebSocket()),
+  });
+
+  await connectionManager.openConnection();
+
+  try {
+    const rootObject = await rpcManager.initialize(token);
+
+    return {rpcManager, connectionManager, rootObject, close: () => connectionManager.closeConnection()};
+  } catch (ex) {
+    connectionManager.closeConnection();
+    throw ex;
+  }
+}
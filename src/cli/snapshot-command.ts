@@ -0,0 +1,60 @@
+import {readFileSync, writeFileSync} from 'fs';
+import {parseArgs} from 'util';
+import {createApiSnapshot, diffApiSnapshots, formatApiSnapshotDiff} from '../typegen/snapshot';
+import {CONNECTION_OPTIONS, openSession} from './session';
+
+export const SNAPSHOT_USAGE = `Usage: zoiper5-rpc-api snapshot [options]
+
+Saves the properties and methods of the Zoiper5 API, along with the Zoiper5 version, to compare them via "diff".
+
+Options:
+${CONNECTION_OPTIONS}
+  --out <file>         The snapshot file (default: zoiper5-api-<version>.json)
+  --max-depth <n>      How many levels of nested objects to describe (default: 4)`;
+
+export const DIFF_USAGE = `Usage: zoiper5-rpc-api diff <from> <to>
+
+Lists the members added and removed between two snapshots, e.g. taken before and after upgrading Zoiper5.
+Exits with code 2 if members were removed.`;
+
+export async function runSnapshot(args: string[]): Promise<void> {
+  const {values} = parseArgs({
+    args,
+    options: {
+      'url': {type: 'string'},
+      'token': {type: 'string'},
+      'out': {type: 'string'},
+      'max-depth': {type: 'string'},
+    },
+  });
+  const session = await openSession({url: values.url, token: values.token});
+
+  try {
+    const snapshot = await createApiSnapshot(session.rootObject, {
+      maxDepth: values['max-depth'] === undefined ? undefined : Number(values['max-depth']),
+    });
+    const file = values.out ?? `zoiper5-api-${snapshot.versionPhone}.json`;
+
+    writeFileSync(file, `${JSON.stringify(snapshot, null, 2)}\n`);
+    console.log(`Saved the API of Zoiper5 ${snapshot.versionPhone} to ${file}`);
+  } finally {
+    session.close();
+  }
+}
+
+export async function runDiff(args: string[]): Promise<void> {
+  const {positionals} = parseArgs({args, allowPositionals: true});
+
+  if (positionals.length !== 2) {
+    throw new Error(DIFF_USAGE);
+  }
+
+  const [from, to] = positionals.map((file) => JSON.parse(readFileSync(file, 'utf8')));
+  const diff = diffApiSnapshots(from, to);
+
+  console.log(formatApiSnapshotDiff(diff));
+
+  if (diff.removed.length > 0) {
+    process.exitCode = 2;
+  }
+}
@@ -0,0 +1,60 @@
+import {readFileSync, writeFileSync} from 'fs';
+import {parseArgs} from 'util';
+import {generateDeclarations} from '../typegen/declarations';
+import {introspect, IntrospectionDump, mergeIntrospectionDumps} from '../typegen/introspect';
+import {CONNECTION_OPTIONS, openSession} from './session';
+
+export const TYPEGEN_USAGE = `Usage: zoiper5-rpc-api typegen [options]
+
+Generates TypeScript declarations of the Zoiper5 API, either by introspecting a running Zoiper5
+or from previously dumped introspections.
+
+Options:
+${CONNECTION_OPTIONS}
+  --input <file>       Read an introspection dump instead of connecting, may be repeated
+  --dump <file>        Write the introspection dump to a file
+  --out <file>         Write the declarations to a file instead of the standard output
+  --root-name <name>   The name of the root interface (default: Phone)
+  --max-depth <n>      How many levels of nested objects to describe (default: 4)`;
+
+export async function runTypegen(args: string[]): Promise<void> {
+  const {values} = parseArgs({
+    args,
+    options: {
+      'url': {type: 'string'},
+      'token': {type: 'string'},
+      'input': {type: 'string', multiple: true},
+      'dump': {type: 'string'},
+      'out': {type: 'string'},
+      'root-name': {type: 'string'},
+      'max-depth': {type: 'string'},
+    },
+  });
+  let dump: IntrospectionDump;
+
+  if (values.input) {
+    dump = mergeIntrospectionDumps(...values.input.map((file) => JSON.parse(readFileSync(file, 'utf8'))));
+  } else {
+    const session = await openSession({url: values.url, token: values.token});
+
+    try {
+      dump = await introspect(session.rootObject, {
+        maxDepth: values['max-depth'] === undefined ? undefined : Number(values['max-depth']),
+      });
+    } finally {
+      session.close();
+    }
+  }
+
+  if (values.dump) {
+    writeFileSync(values.dump, `${JSON.stringify(dump, null, 2)}\n`);
+  }
+
+  const declarations = generateDeclarations(dump, {rootName: values['root-name']});
+
+  if (values.out) {
+    writeFileSync(values.out, declarations);
+  } else {
+    process.stdout.write(declarations);
+  }
+}
@@ -1,42 +1,348 @@
-import type {RPCManager} from './rpc-manager';
+import type {RPCManager, RPCManagerMetrics} from './rpc-manager';
+import type {Transport, TransportCloseEvent} from './transports/transport';
+import {WebSocketTransport} from './transports/websocket-transport';
+import {RequestTimeoutError, TransportClosedError} from './errors';
+
+export type ConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface ReconnectOptions {
+  /**
+   * Delay before the first reconnection attempt in milliseconds. Defaults to `500`.
+   */
+  initialDelay?: number;
+  /**
+   * Upper bound of the delay between reconnection attempts in milliseconds. Defaults to `30000`.
+   */
+  maxDelay?: number;
+  /**
+   * Multiplier applied to the delay after each failed attempt. Defaults to `2`.
+   */
+  factor?: number;
+  /**
+   * Number of attempts after which the connection is considered closed. Defaults to `Infinity`.
+   */
+  maxAttempts?: number;
+}
+
+export interface HeartbeatOptions {
+  /**
+   * Time in milliseconds between heartbeats. Defaults to `15000`.
+   */
+  interval?: number;
+  /**
+   * Time in milliseconds to wait for the response to a heartbeat. Defaults to `5000`.
+   */
+  timeout?: number;
+  /**
+   * Number of heartbeats in a row without a response after which the connection is considered dead. Defaults to `2`.
+   */
+  maxMissed?: number;
+}
+
+/**
+ * Connection health statistics, see {@link ConnectionManager.getMetrics()}.
+ */
+export interface ConnectionMetrics extends RPCManagerMetrics {
+  state: ConnectionState;
+  /**
+   * The number of times the connection was reestablished after dropping.
+   */
+  reconnectCount: number;
+  /**
+   * The number of heartbeats in a row that went without a response.
+   */
+  missedHeartbeatCount: number;
+  /**
+   * The round-trip time in milliseconds of the last heartbeat that got a response.
+   */
+  lastHeartbeatLatency?: number;
+}
 
 export interface ConnectionManagerOptions {
-  url: string;
+  /**
+   * The RPC server URL, connected to via the browser's `WebSocket`. Ignored if {@link transport} is provided.
+   */
+  url?: string;
+  /**
+   * The transport used for connecting to the RPC server.
+   */
+  transport?: Transport;
+  /**
+   * Reconnects automatically when an open connection drops, and resumes the session via {@link RPCManager.resume()}.
+   */
+  reconnect?: boolean | ReconnectOptions;
+  /**
+   * Sends heartbeats via {@link RPCManager.ping()} while the connection is open and the RPC manager is initialized,
+   * to detect connections that stopped responding without getting closed. Once too many heartbeats go without
+   * a response, the connection is treated as closed - pending requests get rejected, and it gets reestablished
+   * if {@link reconnect} is enabled.
+   */
+  heartbeat?: boolean | HeartbeatOptions;
 }
 
+const DEFAULT_RECONNECT_OPTIONS: Required<ReconnectOptions> = {
+  initialDelay: 500,
+  maxDelay: 30000,
+  factor: 2,
+  maxAttempts: Infinity,
+};
+
+const DEFAULT_HEARTBEAT_OPTIONS: Required<HeartbeatOptions> = {
+  interval: 15000,
+  timeout: 5000,
+  maxMissed: 2,
+};
+
+// Reported for connections closed without a close frame
+const CLOSE_CODE_ABNORMAL_CLOSURE = 1006;
+const CLOSE_CODE_PROTOCOL_ERROR = 1002;
+
 export class ConnectionManager {
   private _rpcManager: RPCManager;
   private _options: ConnectionManagerOptions;
-  private _socket?: WebSocket | undefined;
+  private _transport: Transport;
+  private _state: ConnectionState;
+  private _isClosing: boolean;
+  private _cancelReconnectDelay?: () => void;
+  private _abandonConnection?: (event: TransportCloseEvent) => void;
+  private _heartbeatTimeout?: ReturnType<typeof setTimeout>;
+  private _reconnectCount: number;
+  private _missedHeartbeatCount: number;
+  private _lastHeartbeatLatency?: number;
 
   constructor(rpcManager: RPCManager, options: ConnectionManagerOptions) {
+    if (!options.transport && options.url === undefined) {
+      throw new Error('Either the "url" or the "transport" option is required');
+    }
+
     this._rpcManager = rpcManager;
     this._options = options;
+    this._transport = options.transport ?? new WebSocketTransport(options.url!);
+    this._state = 'closed';
+    this._isClosing = false;
+    this._reconnectCount = 0;
+    this._missedHeartbeatCount = 0;
+  }
+
+  /**
+   * The current state of the connection.
+   */
+  get state(): ConnectionState {
+    return this._state;
   }
 
-  onClose?(event: CloseEvent): void;
+  /**
+   * Gets called when the connection is closed for good - either explicitly,
+   * or after the reconnection attempts (if enabled) have been exhausted.
+   */
+  onClose?(event: TransportCloseEvent): void;
+
+  /**
+   * Gets called whenever the connection state changes.
+   */
+  onStateChange?(state: ConnectionState, previousState: ConnectionState): void;
+
+  /**
+   * Provides connection health statistics along with the ones of {@link RPCManager.getMetrics()},
+   * e.g. for monitoring dashboards.
+   */
+  getMetrics(): ConnectionMetrics {
+    return {
+      ...this._rpcManager.getMetrics(),
+      state: this._state,
+      reconnectCount: this._reconnectCount,
+      missedHeartbeatCount: this._missedHeartbeatCount,
+      lastHeartbeatLatency: this._lastHeartbeatLatency,
+    };
+  }
 
   openConnection(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this._socket = new WebSocket(this._options.url, 'text');
+    this._isClosing = false;
+    this._setState('connecting');
 
-      this._socket.onmessage = (event) => {
-        this._rpcManager.processMessage(event.data);
-      };
+    return this._connect().then(() => this._setState('open'));
+  }
 
-      this._rpcManager.sendMessage = (message) => {
-        this._socket!.send(message);
-      };
+  closeConnection(): void {
+    this._isClosing = true;
+
+    if (this._state === 'reconnecting') {
+      this._cancelReconnectDelay?.();
+    }
+
+    this._transport.close();
+  }
+
+  private _connect(): Promise<void> {
+    const transport = this._transport;
+    let isOpen = false;
+    let isClosed = false;
+
+    const handleClose = (event: TransportCloseEvent) => {
+      // An abandoned connection may still report getting closed
+      if (isClosed) {
+        return;
+      }
+
+      isClosed = true;
+
+      if (isOpen) {
+        this._rpcManager.rejectPendingRequests();
+      }
+
+      this._handleClose(event);
+    };
+
+    const abandonConnection = (event: TransportCloseEvent) => {
+      handleClose(event);
+      transport.close();
+    };
+
+    transport.onMessage = (message) => {
+      this._rpcManager.processMessage(message).catch(() => {
+        // E.g. invalid JSON, after which the server can't be relied on
+        if (!isClosed) {
+          abandonConnection({code: CLOSE_CODE_PROTOCOL_ERROR, reason: 'Invalid message', wasClean: false});
+        }
+      });
+    };
+    transport.onClose = handleClose;
+    this._abandonConnection = abandonConnection;
+
+    this._rpcManager.sendMessage = (message) => {
+      if (isClosed) {
+        throw new TransportClosedError();
+      }
 
-      this._socket.onclose = (event) => {
-        this.onClose?.(event);
+      transport.send(message);
+    };
+
+    return transport.open().then(() => {
+      isOpen = true;
+    });
+  }
+
+  private _handleClose(event: TransportCloseEvent): void {
+    if (this._state === 'reconnecting') {
+      // A failed attempt, or a drop while resuming the session - both get handled by `_reconnect()`
+      return;
+    }
+
+    if (this._state === 'open' && !this._isClosing && this._options.reconnect) {
+      this._reconnect(event);
+      return;
+    }
+
+    this._setState('closed');
+    this.onClose?.(event);
+  }
+
+  private async _reconnect(lastEvent: TransportCloseEvent): Promise<void> {
+    const options = {
+      ...DEFAULT_RECONNECT_OPTIONS,
+      ...(typeof this._options.reconnect === 'object' ? this._options.reconnect : {}),
+    };
+
+    this._setState('reconnecting');
+
+    for (let attempt = 0; attempt < options.maxAttempts && !this._isClosing; attempt += 1) {
+      await this._delay(Math.min(options.initialDelay * options.factor ** attempt, options.maxDelay));
+
+      if (this._isClosing) {
+        break;
+      }
+
+      try {
+        await this._connect();
+        await this._rpcManager.resume();
+      } catch (ex) {
+        this._transport.close();
+        continue;
+      }
+
+      if (this._isClosing) {
+        this._transport.close();
+        break;
+      }
+
+      this._reconnectCount += 1;
+      this._setState('open');
+      return;
+    }
+
+    this._setState('closed');
+    this.onClose?.(lastEvent);
+  }
+
+  private _delay(milliseconds: number): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const timeout = setTimeout(resolve, milliseconds);
+
+      this._cancelReconnectDelay = () => {
+        clearTimeout(timeout);
+        resolve();
       };
-      this._socket.onopen = () => resolve();
-      this._socket.onerror = () => reject(new Error('Could not connect to the server'));
+    }).finally(() => {
+      delete this._cancelReconnectDelay;
     });
   }
 
-  closeConnection(): void {
-    this._socket?.close();
+  private _setState(state: ConnectionState): void {
+    const previousState = this._state;
+
+    if (state !== previousState) {
+      this._state = state;
+      this._stopHeartbeat();
+
+      if (state === 'open') {
+        this._startHeartbeat();
+      }
+
+      this.onStateChange?.(state, previousState);
+    }
+  }
+
+  private _startHeartbeat(): void {
+    if (!this._options.heartbeat) {
+      return;
+    }
+
+    const options = {
+      ...DEFAULT_HEARTBEAT_OPTIONS,
+      ...(typeof this._options.heartbeat === 'object' ? this._options.heartbeat : {}),
+    };
+    const sendHeartbeat = async () => {
+      const heartbeatTimeout = this._heartbeatTimeout;
+
+      if (this._rpcManager.isInitialized) {
+        try {
+          this._lastHeartbeatLatency = await this._rpcManager.ping({timeout: options.timeout});
+          this._missedHeartbeatCount = 0;
+        } catch (ex) {
+          if (ex instanceof RequestTimeoutError) {
+            this._missedHeartbeatCount += 1;
+          }
+        }
+      }
+
+      // The heartbeats got stopped, or restarted on a new connection, in the meantime
+      if (this._heartbeatTimeout !== heartbeatTimeout) {
+        return;
+      }
+
+      if (this._missedHeartbeatCount >= options.maxMissed) {
+        this._abandonConnection?.({code: CLOSE_CODE_ABNORMAL_CLOSURE, reason: 'Heartbeats timed out', wasClean: false});
+      } else {
+        this._heartbeatTimeout = setTimeout(sendHeartbeat, options.interval);
+      }
+    };
+
+    this._missedHeartbeatCount = 0;
+    this._heartbeatTimeout = setTimeout(sendHeartbeat, options.interval);
+  }
+
+  private _stopHeartbeat(): void {
+    clearTimeout(this._heartbeatTimeout);
+    this._heartbeatTimeout = undefined;
   }
 }
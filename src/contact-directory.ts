@@ -0,0 +1,103 @@
+import {API_SERVER_METHOD_CALL_FUNCTION} from './const/rpc-server-methods';
+import {ListObject} from './remote-list';
+import {RPCManager} from './rpc-manager';
+import {waitForEvent} from './wait-for-event';
+
+/**
+ * A contact, read from a `Contact` and its `phones` list.
+ */
+export interface ContactRecord {
+  name: string;
+  hidden: boolean;
+  phones: string[];
+}
+
+export interface ContactSearchOptions {
+  /**
+   * One of the `ECONTACTS_SORT_*` constants. Defaults to `ECONTACTS_SORT_NAME`.
+   */
+  sort?: number;
+  /**
+   * One of the `ECONTACT_TYPE_*` constants. Defaults to `ECONTACT_TYPE_UNKNOWN`.
+   */
+  type?: number;
+  /**
+   * The maximum number of contacts to read. Defaults to all.
+   */
+  limit?: number;
+  /**
+   * Time in milliseconds to wait for the search to complete, after which it fails with a {@link RequestTimeoutError}.
+   * Defaults to `0` - no timeout.
+   */
+  timeout?: number;
+  /**
+   * Fails the search with a {@link RequestAbortedError} when aborted.
+   */
+  signal?: AbortSignal;
+}
+
+interface ContactListObject extends ListObject {
+  filter(text: string, sort: number, type: number, flag: boolean): Promise<number>;
+}
+
+/**
+ * Searches the contacts of the phone. A search is started via `ContactList.filter()` and completes
+ * with the `search_completed` event of the `contact-service` global callback.
+ *
+ * ```js
+ * const contactDirectory = new ContactDirectory(rpcManager, zoiperAPI);
+ * const contacts = await contactDirectory.searchContacts('john', {limit: 10, timeout: 5000});
+ * ```
+ */
+export class ContactDirectory {
+  private _rpcManager: RPCManager<any, any>;
+  private _root: {contacts: Promise<ContactListObject>};
+  private _lastSearch: Promise<unknown>;
+
+  constructor(rpcManager: RPCManager<any, any>, root: object) {
+    this._rpcManager = rpcManager;
+    this._root = root as {contacts: Promise<ContactListObject>};
+    this._lastSearch = Promise.resolve();
+  }
+
+  /**
+   * Filters the contacts and reads the matching ones once the search completes.
+   * Searches run one at a time, as the phone has a single contact filter. If the filter did not change,
+   * which the phone reports with a result code other than `EAPI_ERROR_OK`, the current contacts are returned.
+   * @param query The text to look for in the contact names and numbers, an empty string for all contacts.
+   */
+  searchContacts(query: string, options: ContactSearchOptions = {}): Promise<ContactRecord[]> {
+    const search = this._lastSearch.then(() => this._search(query, options), () => this._search(query, options));
+
+    this._lastSearch = search.catch(() => undefined);
+
+    return search;
+  }
+
+  private async _search(query: string, options: ContactSearchOptions): Promise<ContactRecord[]> {
+    const constants = this._rpcManager.constants as Record<string, number>;
+    const {sort = constants.ECONTACTS_SORT_NAME, type = constants.ECONTACT_TYPE_UNKNOWN, limit, timeout, signal} = options;
+    const contactList = await this._root.contacts;
+
+    await waitForEvent(this._rpcManager, 'contact-service', (contactService: unknown, event: string) => {
+      return event === 'search_completed';
+    }, async () => {
+      const result = await contactList.filter(query, sort, type, false);
+
+      // The filter did not change, so no search gets started
+      return result === constants.EAPI_ERROR_OK;
+    }, {timeout, signal, context: {method: API_SERVER_METHOD_CALL_FUNCTION, memberName: 'filter'}});
+
+    const contacts = await this._rpcManager.list(contactList).slice(0, limit);
+
+    return Promise.all(contacts.map((contact) => this._readContact(contact)));
+  }
+
+  private async _readContact(contact: object): Promise<ContactRecord> {
+    const {name, hidden, phones} = await this._rpcManager.read(contact, ['name', 'hidden', 'phones']);
+    const phoneItems = await this._rpcManager.list(phones as ListObject).toArray();
+    const numbers = await Promise.all(phoneItems.map((phone) => this._rpcManager.get(phone, 'number')));
+
+    return {name: name as string, hidden: hidden as boolean, phones: numbers as string[]};
+  }
+}
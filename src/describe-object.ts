@@ -0,0 +1,25 @@
+/**
+ * The property and method names of an object obtained from the server.
+ */
+export interface ObjectDescription {
+  properties: string[];
+  methods: string[];
+}
+
+/**
+ * Lists the members of an object obtained from the server. Its properties are accessors, and its methods functions.
+ */
+export function describeObject(object: object): ObjectDescription {
+  const properties: string[] = [];
+  const methods: string[] = [];
+
+  for (const [name, descriptor] of Object.entries(Object.getOwnPropertyDescriptors(object))) {
+    if (descriptor.get) {
+      properties.push(name);
+    } else if (typeof descriptor.value === 'function') {
+      methods.push(name);
+    }
+  }
+
+  return {properties, methods};
+}
@@ -0,0 +1,67 @@
+/**
+ * Runs tasks one at a time per key, in the order they were added, and at most `concurrency` tasks at a time overall.
+ * Tasks without a key are only subject to the concurrency limit.
+ */
+export class DispatchQueue {
+  private _concurrency: number;
+  private _runningCount: number;
+  private _waitingTasks: (() => void)[];
+  private _lastTasks: Map<string, Promise<unknown>>;
+
+  constructor(concurrency: number = Infinity) {
+    if (!(concurrency >= 1)) {
+      throw new RangeError(`Invalid concurrency: ${concurrency}`);
+    }
+
+    this._concurrency = concurrency;
+    this._runningCount = 0;
+    this._waitingTasks = [];
+    this._lastTasks = new Map();
+  }
+
+  /**
+   * Runs a task once the previous task with the same key has completed and the concurrency limit allows it.
+   * @param key The ordering key, e.g. the name of a global callback.
+   * @returns The result of the task.
+   */
+  run<R>(key: string | undefined, task: () => Promise<R>): Promise<R> {
+    if (key === undefined) {
+      return this._runWhenAllowed(task);
+    }
+
+    const previousTask = this._lastTasks.get(key) ?? Promise.resolve();
+    const result = previousTask.then(() => this._runWhenAllowed(task));
+    const lastTask = result.catch(() => undefined);
+
+    this._lastTasks.set(key, lastTask);
+    lastTask.then(() => {
+      // Keeps the map from growing with keys that are done, e.g. the IDs of ended calls
+      if (this._lastTasks.get(key) === lastTask) {
+        this._lastTasks.delete(key);
+      }
+    });
+
+    return result;
+  }
+
+  private async _runWhenAllowed<R>(task: () => Promise<R>): Promise<R> {
+    if (this._runningCount >= this._concurrency) {
+      await new Promise<void>((resolve) => this._waitingTasks.push(resolve));
+    } else {
+      this._runningCount += 1;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const nextTask = this._waitingTasks.shift();
+
+      // The slot passes on to the next waiting task
+      if (nextTask) {
+        nextTask();
+      } else {
+        this._runningCount -= 1;
+      }
+    }
+  }
+}
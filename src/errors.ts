@@ -0,0 +1,199 @@
+/**
+ * Describes the request an error is related to. Fields are only present when applicable.
+ */
+export interface RPCErrorContext {
+  /**
+   * The JSON-RPC request ID.
+   */
+  requestId?: number;
+  /**
+   * The JSON-RPC method, e.g. `get` or `execute`.
+   */
+  method?: string;
+  /**
+   * The ID of the script object targeted by the request.
+   */
+  targetId?: number;
+  /**
+   * The name of the property or method targeted by the request.
+   */
+  memberName?: string;
+}
+
+/**
+ * Base class of all errors produced by the wrapper.
+ */
+export class RPCError extends Error implements RPCErrorContext {
+  readonly requestId?: number;
+  readonly method?: string;
+  readonly targetId?: number;
+  readonly memberName?: string;
+
+  constructor(message: string, context: RPCErrorContext = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.requestId = context.requestId;
+    this.method = context.method;
+    this.targetId = context.targetId;
+    this.memberName = context.memberName;
+  }
+}
+
+/**
+ * The server responded to a request with a JSON-RPC error.
+ */
+export class RemoteError extends RPCError {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(error: {code: number, message: string, data?: unknown}, context: RPCErrorContext = {}) {
+    super(error.message, context);
+    this.code = error.code;
+    this.data = error.data;
+  }
+}
+
+/**
+ * The server rejected the API token.
+ */
+export class AuthenticationError extends RemoteError {}
+
+/**
+ * A value could not be converted to or from its wire format.
+ */
+export class SerializationError extends RPCError {
+  readonly value: unknown;
+
+  constructor(value: unknown, message: string = `Unexpected value: ${value}`) {
+    super(message);
+    this.value = value;
+  }
+}
+
+/**
+ * An object that was neither obtained from the server nor passed to it as a callback was used as a script object.
+ */
+export class UnknownScriptObjectError extends SerializationError {
+  constructor(value: unknown) {
+    super(value, `Unknown script object: ${value}`);
+  }
+}
+
+/**
+ * A request targeted an object that was released via {@link RPCManager.release()}.
+ */
+export class ReleasedScriptObjectError extends RPCError {
+  constructor(context: RPCErrorContext = {}) {
+    super(`Script object ${context.targetId} has been released`, context);
+  }
+}
+
+/**
+ * The server invoked a callback that the client no longer knows about.
+ */
+export class CallbackNotFoundError extends RPCError {
+  readonly functionId: number;
+
+  constructor(functionId: number) {
+    super(`Function was not found - ID: ${functionId}`, {targetId: functionId});
+    this.functionId = functionId;
+  }
+}
+
+/**
+ * A method reported a failure via the result code passed to its callback.
+ */
+export class ResultError extends RPCError {
+  /**
+   * The result code, compare it to `Phone.constants`.
+   */
+  readonly result: number;
+  /**
+   * The name of the result code, e.g. `EAPI_ERROR_FAIL`, if known.
+   */
+  readonly resultName?: string;
+
+  constructor(result: number, context: RPCErrorContext = {}, resultName?: string) {
+    super(`Method "${context.memberName}" failed - result: ${result}${resultName === undefined ? '' : ` (${resultName})`}`, context);
+    this.result = result;
+    this.resultName = resultName;
+  }
+}
+
+/**
+ * The server failed to provide an item of a list object.
+ */
+export class ListItemError extends RPCError {
+  readonly index: number;
+  /**
+   * The result code the server provided along with the item, compare it to `Phone.constants`.
+   */
+  readonly result?: number;
+
+  constructor(index: number, result?: number, message: string = `Failed to get list item ${index} - result: ${result}`) {
+    super(message, {method: 'itemAt'});
+    this.index = index;
+    this.result = result;
+  }
+}
+
+/**
+ * A member access was denied by the {@link AccessPolicy} of the manager. No request was sent to the server.
+ */
+export class AccessDeniedError extends RPCError {
+  /**
+   * The path of the member, if known, e.g. `activeCall.hangup`.
+   */
+  readonly path?: string;
+
+  constructor(path: string | undefined, reason: string, context: RPCErrorContext = {}) {
+    super(`Access to "${path ?? context.memberName}" was denied - ${reason}`, context);
+    this.path = path;
+  }
+}
+
+/**
+ * A request did not receive a response within the configured timeout.
+ */
+export class RequestTimeoutError extends RPCError {
+  readonly timeout: number;
+
+  constructor(timeout: number, context: RPCErrorContext = {}) {
+    super(`Request "${context.method}" timed out after ${timeout} ms`, context);
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * A request was cancelled via its `AbortSignal`.
+ */
+export class RequestAbortedError extends RPCError {
+  constructor(context: RPCErrorContext = {}) {
+    super(`Request "${context.method}" was aborted`, context);
+  }
+}
+
+/**
+ * The connection to the server was closed before a request could be completed.
+ */
+export class TransportClosedError extends RPCError {
+  constructor(message: string = 'Connection to the server is closed', context: RPCErrorContext = {}) {
+    super(message, context);
+  }
+}
+
+/**
+ * A {@link ReplayTransport} received a message different from the one recorded at that point.
+ */
+export class ReplayMismatchError extends RPCError {
+  readonly expected?: unknown;
+  readonly actual: unknown;
+
+  constructor(expected: unknown, actual: unknown) {
+    super(expected === undefined
+      ? `Unexpected message, the recording has ended: ${JSON.stringify(actual)}`
+      : `Unexpected message: ${JSON.stringify(actual)}, expected: ${JSON.stringify(expected)}`);
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
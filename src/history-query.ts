@@ -0,0 +1,257 @@
+import {API_SERVER_METHOD_CALL_FUNCTION} from './const/rpc-server-methods';
+import {ResultError} from './errors';
+import {RPCManager} from './rpc-manager';
+import {waitForEvent} from './wait-for-event';
+
+/**
+ * How a call recorded in the history ended:
+ * - `answered` - the call was established
+ * - `no-answer` - an outgoing call was cancelled before the remote party answered
+ * - `rejected` - the call was declined by the party receiving it
+ * - `missed` - an incoming call was cancelled before it was answered
+ * - `failed` - the call failed, see {@link HistoryCallRecord.terminationError}
+ * - `unknown` - the phone did not provide enough details
+ */
+export type HistoryCallOutcome = 'answered' | 'no-answer' | 'rejected' | 'missed' | 'failed' | 'unknown';
+
+export type HistoryCallDirection = 'incoming' | 'outgoing' | 'unknown';
+
+/**
+ * A call from the history, read from a `HistoryDetail` and its `CallSummary`.
+ */
+export interface HistoryCallRecord {
+  datetime: string;
+  peerNumber: string;
+  direction: HistoryCallDirection;
+  /**
+   * Compare it to the `EORIGIN_*` constants.
+   */
+  origin: number;
+  established: boolean;
+  /**
+   * Compare it to the `EORIGIN_*` constants.
+   */
+  terminationOrigin: number;
+  /**
+   * Present if the call ended due to an error.
+   */
+  terminationError?: {text: string, layerCode: number};
+  outcome: HistoryCallOutcome;
+}
+
+interface HistoryFilterObject {
+  readonly histories: Promise<any>;
+  addType(type: number): Promise<number>;
+  apply(groupMode: number, limit: number): Promise<number>;
+}
+
+interface HistoryServiceObject {
+  addFilter(callback: (result: number, historyFilter: HistoryFilterObject) => unknown): Promise<number>;
+  removeFilter(historyFilter: HistoryFilterObject): Promise<number>;
+}
+
+/**
+ * Queries the call history, running the whole history filter lifecycle - adding the filter, applying it,
+ * waiting for the `search_completed` event of the `history-filter` global callback, reading the results,
+ * and removing the filter, also when the query fails.
+ *
+ * ```js
+ * const records = await new HistoryQuery(rpcManager, zoiperAPI)
+ *   .limit(10)
+ *   .timeout(5000)
+ *   .run();
+ *
+ * for (const {datetime, peerNumber, outcome} of records) {
+ *   console.log(datetime, peerNumber, outcome);
+ * }
+ * ```
+ */
+export class HistoryQuery {
+  private _rpcManager: RPCManager<any, any>;
+  private _root: {historyService: Promise<HistoryServiceObject>};
+  private _types?: number[];
+  private _groupMode?: number;
+  private _limit: number;
+  private _timeout: number;
+  private _signal?: AbortSignal;
+
+  constructor(rpcManager: RPCManager<any, any>, root: object) {
+    this._rpcManager = rpcManager;
+    this._root = root as {historyService: Promise<HistoryServiceObject>};
+    this._limit = 0;
+    this._timeout = 0;
+  }
+
+  /**
+   * The history types to include, the `EHISTORY_TYPE_*` constants. Defaults to `EHISTORY_TYPE_CALL`.
+   */
+  types(...types: number[]): this {
+    this._types = types;
+
+    return this;
+  }
+
+  /**
+   * One of the `EHISTORY_GROUP_MODE_*` constants. Defaults to `EHISTORY_GROUP_MODE_EVENT`.
+   */
+  groupMode(groupMode: number): this {
+    this._groupMode = groupMode;
+
+    return this;
+  }
+
+  /**
+   * The maximum number of records, `0` for all. Defaults to `0`.
+   */
+  limit(limit: number): this {
+    this._limit = limit;
+
+    return this;
+  }
+
+  /**
+   * Time in milliseconds to wait for the search to complete, after which the query fails
+   * with a {@link RequestTimeoutError}. Defaults to `0` - no timeout.
+   */
+  timeout(timeout: number): this {
+    this._timeout = timeout;
+
+    return this;
+  }
+
+  /**
+   * Fails the query with a {@link RequestAbortedError} when aborted.
+   */
+  signal(signal: AbortSignal): this {
+    this._signal = signal;
+
+    return this;
+  }
+
+  /**
+   * Runs the query.
+   * @throws {ResultError} When the phone fails to add or apply the filter.
+   */
+  async run(): Promise<HistoryCallRecord[]> {
+    const constants = this._rpcManager.constants as Record<string, number>;
+    const historyService = await this._root.historyService;
+    let addFilterResult: number | undefined;
+    let historyFilter: HistoryFilterObject | null = null;
+
+    // Same as for list items, the callback is only known to the manager while `addFilter` is in progress
+    this._checkResult(await historyService.addFilter((result, filter) => {
+      addFilterResult = result;
+      historyFilter = filter;
+    }), 'addFilter');
+    this._checkResult(addFilterResult, 'addFilter');
+
+    if (historyFilter === null) {
+      throw new Error('The phone did not provide the history filter');
+    }
+
+    const filter: HistoryFilterObject = historyFilter;
+    let records: HistoryCallRecord[];
+
+    try {
+      for (const type of this._types ?? [constants.EHISTORY_TYPE_CALL]) {
+        this._checkResult(await filter.addType(type), 'addType');
+      }
+
+      await this._search(filter, constants);
+
+      const historyDetails = await this._rpcManager.list(filter.histories).toArray();
+
+      records = await Promise.all(historyDetails.map((historyDetail) => this._readRecord(historyDetail, constants)));
+    } catch (ex) {
+      await historyService.removeFilter(filter).catch(() => undefined);
+
+      throw ex;
+    }
+
+    await historyService.removeFilter(filter);
+
+    return records;
+  }
+
+  private _search(filter: HistoryFilterObject, constants: Record<string, number>): Promise<void> {
+    const isCompletion = (historyFilter: unknown, historyDetail: unknown, event: string) => {
+      return historyFilter === filter && event === 'search_completed';
+    };
+
+    return waitForEvent(this._rpcManager, 'history-filter', isCompletion, async () => {
+      this._checkResult(await filter.apply(this._groupMode ?? constants.EHISTORY_GROUP_MODE_EVENT, this._limit), 'apply');
+
+      return true;
+    }, {
+      timeout: this._timeout,
+      signal: this._signal,
+      context: {method: API_SERVER_METHOD_CALL_FUNCTION, memberName: 'apply'},
+    });
+  }
+
+  private async _readRecord(historyDetail: object, constants: Record<string, number>): Promise<HistoryCallRecord> {
+    const {datetime, callSummary} = await this._rpcManager.read(historyDetail, ['datetime', 'callSummary']);
+    const {peerNumber, origin, established, terminationOrigin, terminationError} = await this._rpcManager.read(
+      callSummary as object,
+      ['peerNumber', 'origin', 'established', 'terminationOrigin', 'terminationError'],
+    ) as {peerNumber: string, origin: number, established: boolean, terminationOrigin: number, terminationError: object};
+    const {isError, text, layerCode} = await this._rpcManager.read(terminationError, ['isError', 'text', 'layerCode']);
+    let direction: HistoryCallDirection = 'unknown';
+
+    if (origin === constants.EORIGIN_LOCAL) {
+      direction = 'outgoing';
+    } else if (origin === constants.EORIGIN_REMOTE) {
+      direction = 'incoming';
+    }
+
+    const record: HistoryCallRecord = {
+      datetime: datetime as string,
+      peerNumber,
+      direction,
+      origin,
+      established,
+      terminationOrigin,
+      outcome: getOutcome(direction, established, terminationOrigin, constants),
+    };
+
+    if (isError) {
+      record.terminationError = {text: text as string, layerCode: layerCode as number};
+    }
+
+    return record;
+  }
+
+  private _checkResult(result: number | undefined, memberName: string): void {
+    const constants = this._rpcManager.constants as Record<string, number>;
+
+    if (result !== constants.EAPI_ERROR_OK) {
+      throw new ResultError(result as number, {memberName}, this._rpcManager.getConstantName(result, 'EAPI_ERROR_'));
+    }
+  }
+}
+
+function getOutcome(
+  direction: HistoryCallDirection,
+  established: boolean,
+  terminationOrigin: number,
+  constants: Record<string, number>,
+): HistoryCallOutcome {
+  if (direction === 'unknown') {
+    return 'unknown';
+  }
+
+  if (established) {
+    return 'answered';
+  }
+
+  switch (terminationOrigin) {
+    case constants.EORIGIN_LOCAL:
+      return direction === 'outgoing' ? 'no-answer' : 'rejected';
+    case constants.EORIGIN_REMOTE:
+      return direction === 'outgoing' ? 'rejected' : 'missed';
+    case constants.EORIGIN_FAILURE:
+      return 'failed';
+    default:
+      return 'unknown';
+  }
+}
@@ -1,2 +1,84 @@
-export {RPCManager} from './rpc-manager';
-export {ConnectionManager, ConnectionManagerOptions} from './connection-manager';
+export {
+  RPCManager,
+  RPCManagerOptions,
+  RPCManagerDiagnostics,
+  RequestOptions,
+  SerializableValue,
+  EventMap,
+  EventIteratorOptions,
+  Constants,
+  CallbackOrder,
+  CallbackDispatchOptions,
+  RPCManagerMetrics,
+  LatencyPercentiles,
+} from './rpc-manager';
+export {AccessPolicy, MemberAccess, MemberAccessType} from './access-policy';
+export {RPCInterceptor, JSONRPCMessage} from './interceptors/interceptor';
+export {Tracer, TracerOptions, TraceEntry, TracedRequest, LatencyStats, formatTraceEntry} from './interceptors/tracer';
+export {Recorder, RecorderOptions, Recording, RecordedMessage} from './interceptors/recorder';
+export {RemoteList, RemoteListOptions, ListObject} from './remote-list';
+export {CallController, Call, CallState, CallDirection, DialOptions} from './call-controller';
+export {ContactDirectory, ContactRecord, ContactSearchOptions} from './contact-directory';
+export {HistoryQuery, HistoryCallRecord, HistoryCallOutcome, HistoryCallDirection} from './history-query';
+export {StateStore, StateSnapshot, WatchedValue, WatchedValues} from './state-store';
+export {
+  ConnectionManager,
+  ConnectionManagerOptions,
+  ConnectionState,
+  ReconnectOptions,
+  HeartbeatOptions,
+  ConnectionMetrics,
+} from './connection-manager';
+export {Transport, TransportCloseEvent} from './transports/transport';
+export {WebSocketTransport, WebSocketTransportOptions, WebSocketLike, WebSocketConstructor} from './transports/websocket-transport';
+export {NodeWebSocketTransport} from './transports/node-websocket-transport';
+export {LoopbackTransport, LoopbackEndpoint} from './transports/loopback-transport';
+export {ReplayTransport, ReplayTransportOptions} from './transports/replay-transport';
+export {RPCBridge, RPCBridgeOptions, WebSocketServerLike, ServerWebSocketLike} from './bridge/rpc-bridge';
+export {MockServer, MockServerOptions} from './testing/mock-server';
+export {
+  MockPhone,
+  MockPhoneOptions,
+  MockCall,
+  MockContact,
+  MockHistoryRecord,
+  MockList,
+  MOCK_CONSTANTS,
+  createMockList,
+} from './testing/mock-phone';
+export {
+  introspect,
+  mergeIntrospectionDumps,
+  IntrospectOptions,
+  IntrospectionDump,
+  IntrospectedObject,
+  IntrospectedType,
+} from './typegen/introspect';
+export {generateDeclarations, GenerateDeclarationsOptions} from './typegen/declarations';
+export {
+  createApiSnapshot,
+  listApiMembers,
+  diffApiSnapshots,
+  formatApiSnapshotDiff,
+  ApiSnapshot,
+  ApiSnapshotDiff,
+  ApiMember,
+  ApiMemberKind,
+} from './typegen/snapshot';
+export {
+  RPCError,
+  RPCErrorContext,
+  RemoteError,
+  AuthenticationError,
+  SerializationError,
+  UnknownScriptObjectError,
+  ReleasedScriptObjectError,
+  CallbackNotFoundError,
+  ResultError,
+  ListItemError,
+  AccessDeniedError,
+  RequestTimeoutError,
+  RequestAbortedError,
+  TransportClosedError,
+  ReplayMismatchError,
+} from './errors';
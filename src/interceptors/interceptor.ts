@@ -0,0 +1,28 @@
+/**
+ * A parsed JSON-RPC 2.0 request, notification or response.
+ */
+export interface JSONRPCMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown[];
+  result?: unknown;
+  error?: {code: number, message: string, data?: unknown};
+}
+
+/**
+ * Observes, and optionally replaces, the messages exchanged with the server. Added via {@link RPCManager.use()}.
+ * Batched messages are passed one by one.
+ */
+export interface RPCInterceptor {
+  /**
+   * Called for every message sent to the server - requests, as well as responses to callback invocations.
+   * @returns A replacement for the message, or nothing to keep it.
+   */
+  onOutgoingMessage?(message: JSONRPCMessage): JSONRPCMessage | void;
+  /**
+   * Called for every message received from the server - responses, as well as callback invocations.
+   * @returns A replacement for the message, or nothing to keep it.
+   */
+  onIncomingMessage?(message: JSONRPCMessage): JSONRPCMessage | void;
+}
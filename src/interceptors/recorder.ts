@@ -0,0 +1,79 @@
+import {API_SERVER_METHOD_AUTHENTICATE} from '../const/rpc-server-methods';
+import {JSONRPCMessage, RPCInterceptor} from './interceptor';
+
+export interface RecordedMessage {
+  direction: 'outgoing' | 'incoming';
+  /**
+   * The time in milliseconds elapsed since the first recorded message.
+   */
+  time: number;
+  message: JSONRPCMessage;
+}
+
+/**
+ * A JSON-serializable session recorded by a {@link Recorder}, which a {@link ReplayTransport} can play back.
+ */
+export interface Recording {
+  version: 1;
+  messages: RecordedMessage[];
+}
+
+export interface RecorderOptions {
+  /**
+   * Replaces the token sent via `authenticate` with `[redacted]`. Defaults to `true`.
+   */
+  redact?: boolean;
+}
+
+/**
+ * An interceptor recording the messages exchanged with the server, along with their timing.
+ *
+ * ```js
+ * const recorder = new Recorder();
+ * rpcManager.use(recorder);
+ * // Later...
+ * fs.writeFileSync('session.json', JSON.stringify(recorder.getRecording()));
+ * ```
+ */
+export class Recorder implements RPCInterceptor {
+  private _options: RecorderOptions;
+  private _messages: RecordedMessage[];
+  private _startTime?: number;
+
+  constructor(options: RecorderOptions = {}) {
+    this._options = options;
+    this._messages = [];
+  }
+
+  onOutgoingMessage(message: JSONRPCMessage): void {
+    if (message.method === API_SERVER_METHOD_AUTHENTICATE && this._options.redact !== false) {
+      message = {...message, params: message.params?.map(() => '[redacted]')};
+    }
+
+    this._record('outgoing', message);
+  }
+
+  onIncomingMessage(message: JSONRPCMessage): void {
+    this._record('incoming', message);
+  }
+
+  getRecording(): Recording {
+    return {version: 1, messages: [...this._messages]};
+  }
+
+  /**
+   * Discards the recorded messages.
+   */
+  clear(): void {
+    this._messages = [];
+    this._startTime = undefined;
+  }
+
+  private _record(direction: RecordedMessage['direction'], message: JSONRPCMessage): void {
+    const now = Date.now();
+
+    this._startTime ??= now;
+    // Copied, as following interceptors may modify the message
+    this._messages.push({direction, time: now - this._startTime, message: JSON.parse(JSON.stringify(message))});
+  }
+}
@@ -0,0 +1,327 @@
+import {API_CLIENT_METHOD_CALLBACK} from '../const/rpc-client-methods';
+import {
+  API_SERVER_METHOD_AUTHENTICATE,
+  API_SERVER_METHOD_CALL_FUNCTION,
+  API_SERVER_METHOD_SET_VALUE,
+} from '../const/rpc-server-methods';
+import {API_VALUE_TYPE_EMPTY, API_VALUE_TYPE_SCRIPT_OBJECT} from '../const/rpc-values';
+import {JSONRPCMessage, RPCInterceptor} from './interceptor';
+
+const REDACTED_VALUE = '[redacted]';
+// How many callbacks and server objects to remember, keeping the most recently seen ones
+const MAX_TRACKED_SCRIPT_OBJECTS = 1000;
+// Requests that timed out or whose connection dropped never get a response, so only the latest ones are kept
+const MAX_PENDING_REQUESTS = 1000;
+
+/**
+ * Identifies a request - the method along with the targeted object and member, where applicable.
+ */
+export interface TracedRequest {
+  requestId?: number | string | null;
+  method?: string;
+  targetId?: number;
+  memberName?: string;
+}
+
+/**
+ * Describes a message exchanged with the server.
+ */
+export interface TraceEntry extends TracedRequest {
+  direction: 'outgoing' | 'incoming';
+  type: 'request' | 'notification' | 'response';
+  /**
+   * The request arguments following the target and member name, e.g. the arguments of an `execute` request.
+   */
+  args?: unknown[];
+  result?: unknown;
+  error?: {code: number, message: string, data?: unknown};
+  /**
+   * For responses, the time in milliseconds elapsed since the request.
+   */
+  latency?: number;
+  /**
+   * For callback invocations, the latest `execute` request that passed the callback as an argument.
+   * Known for the 1000 callbacks passed most recently.
+   */
+  origin?: TracedRequest;
+  timestamp: number;
+}
+
+export interface LatencyStats {
+  count: number;
+  min: number;
+  max: number;
+  average: number;
+}
+
+export interface TracerOptions {
+  /**
+   * Replaces the token sent via `authenticate` with `[redacted]` in the trace entries. Defaults to `true`.
+   */
+  redact?: boolean;
+  /**
+   * Receives every trace entry formatted via {@link formatTraceEntry()}, e.g. `console.debug`.
+   */
+  logger?: (line: string) => void;
+}
+
+interface PendingTrace extends TracedRequest {
+  timestamp: number;
+}
+
+function isScriptObject(value: unknown): value is {type: string, scriptObject: number} {
+  return typeof value === 'object' && value !== null && (value as {type: unknown}).type === API_VALUE_TYPE_SCRIPT_OBJECT;
+}
+
+function addTracked<K, V>(map: Map<K, V>, key: K, value: V, maxSize: number = MAX_TRACKED_SCRIPT_OBJECTS): void {
+  map.delete(key);
+  map.set(key, value);
+
+  if (map.size > maxSize) {
+    map.delete(map.keys().next().value);
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (isScriptObject(value)) {
+    return `#${value.scriptObject}`;
+  }
+
+  if (typeof value === 'object' && value !== null && (value as {type: unknown}).type === API_VALUE_TYPE_EMPTY) {
+    return 'undefined';
+  }
+
+  return JSON.stringify(value);
+}
+
+function formatRequest({method, targetId, memberName}: TracedRequest): string {
+  if (targetId === undefined) {
+    return `${method}`;
+  }
+
+  return `${method} #${targetId}${memberName === undefined ? '' : `.${memberName}`}`;
+}
+
+/**
+ * Formats a trace entry as a single line, e.g. `-> #5 execute #1.createCall("1001", false, "", #2)`.
+ */
+export function formatTraceEntry(entry: TraceEntry): string {
+  const arrow = entry.direction === 'outgoing' ? '->' : '<-';
+  const id = entry.requestId === undefined || entry.requestId === null ? '' : ` #${entry.requestId}`;
+  const request = formatRequest(entry);
+
+  if (entry.type === 'response') {
+    const latency = entry.latency === undefined ? '' : ` ${entry.latency}ms`;
+    const outcome = entry.error ? `failed: ${entry.error.code} ${entry.error.message}` : `= ${formatValue(entry.result)}`;
+
+    return `${arrow}${id} ${request}${latency} ${outcome}`;
+  }
+
+  const args = entry.args ?? [];
+  const formattedArgs = entry.method === API_SERVER_METHOD_SET_VALUE
+    ? ` = ${args.map(formatValue).join(', ')}`
+    : entry.method === API_SERVER_METHOD_CALL_FUNCTION || args.length > 0 ? `(${args.map(formatValue).join(', ')})` : '';
+  const origin = entry.origin ? ` via #${entry.origin.requestId} ${formatRequest(entry.origin)}` : '';
+
+  return `${arrow}${id} ${request}${formattedArgs}${origin}`;
+}
+
+/**
+ * An interceptor producing structured trace entries for the traffic between the client and the server,
+ * and measuring the response latency per method and member.
+ *
+ * ```js
+ * const tracer = new Tracer({logger: console.debug});
+ * tracer.onTrace = (entry) => sendToMonitoring(entry);
+ * rpcManager.use(tracer);
+ * ```
+ */
+export class Tracer implements RPCInterceptor {
+  private _options: TracerOptions;
+  private _pendingOutgoingRequests: Map<number | string, PendingTrace>;
+  private _pendingIncomingRequests: Map<number | string, PendingTrace>;
+  private _callbackOriginMap: Map<number, TracedRequest>;
+  private _receivedScriptObjectIds: Map<number, true>;
+  private _latencyStats: Map<string, {count: number, min: number, max: number, total: number}>;
+
+  /**
+   * Called with every traced message.
+   * @param entry Describes the message.
+   */
+  onTrace?(entry: TraceEntry): void;
+
+  constructor(options: TracerOptions = {}) {
+    this._options = options;
+    this._pendingOutgoingRequests = new Map();
+    this._pendingIncomingRequests = new Map();
+    this._callbackOriginMap = new Map();
+    this._receivedScriptObjectIds = new Map();
+    this._latencyStats = new Map();
+  }
+
+  onOutgoingMessage(message: JSONRPCMessage): void {
+    this._trace(message, 'outgoing');
+  }
+
+  onIncomingMessage(message: JSONRPCMessage): void {
+    this._trace(message, 'incoming');
+  }
+
+  /**
+   * The response latency statistics, keyed by method and member name, e.g. `get versionPhone` or `execute createCall`.
+   */
+  getLatencyStats(): Record<string, LatencyStats> {
+    const latencyStats: Record<string, LatencyStats> = {};
+
+    for (const [key, {count, min, max, total}] of this._latencyStats) {
+      latencyStats[key] = {count, min, max, average: total / count};
+    }
+
+    return latencyStats;
+  }
+
+  resetLatencyStats(): void {
+    this._latencyStats.clear();
+  }
+
+  private _trace(message: JSONRPCMessage, direction: TraceEntry['direction']): void {
+    const timestamp = Date.now();
+    const hasId = message.id !== undefined && message.id !== null;
+
+    if (message.method === undefined) {
+      // Responses to outgoing requests are incoming, and vice versa
+      const pendingRequests = direction === 'incoming' ? this._pendingOutgoingRequests : this._pendingIncomingRequests;
+      const request = hasId ? pendingRequests.get(message.id!) : undefined;
+
+      if (hasId) {
+        pendingRequests.delete(message.id!);
+      }
+
+      const latency = request ? timestamp - request.timestamp : undefined;
+
+      if (request && latency !== undefined && direction === 'incoming') {
+        this._recordLatency(request, latency);
+      }
+
+      if (direction === 'incoming') {
+        this._recordReceivedScriptObjects([message.result]);
+      }
+
+      this._emit({
+        direction,
+        type: 'response',
+        requestId: message.id,
+        method: request?.method,
+        targetId: request?.targetId,
+        memberName: request?.memberName,
+        result: message.result,
+        error: message.error,
+        latency,
+        timestamp,
+      });
+
+      return;
+    }
+
+    const request = this._describeRequest(message);
+    const entry: TraceEntry = {
+      direction,
+      type: hasId ? 'request' : 'notification',
+      ...request,
+      args: this._getArgs(message),
+      timestamp,
+    };
+
+    if (hasId) {
+      const pendingRequests = direction === 'outgoing' ? this._pendingOutgoingRequests : this._pendingIncomingRequests;
+
+      addTracked(pendingRequests, message.id!, {...request, timestamp}, MAX_PENDING_REQUESTS);
+    }
+
+    if (direction === 'outgoing' && request.targetId !== undefined) {
+      this._recordReceivedScriptObjects([message.params![0]]);
+    }
+
+    if (direction === 'outgoing' && message.method === API_SERVER_METHOD_CALL_FUNCTION) {
+      for (const arg of entry.args!) {
+        if (isScriptObject(arg)) {
+          this._recordCallbackOrigin(arg.scriptObject, request);
+        }
+      }
+    }
+
+    if (direction === 'incoming' && message.method === API_CLIENT_METHOD_CALLBACK && request.targetId !== undefined) {
+      entry.origin = this._callbackOriginMap.get(request.targetId);
+      this._recordReceivedScriptObjects(entry.args!);
+    }
+
+    this._emit(entry);
+  }
+
+  private _recordCallbackOrigin(scriptObjectId: number, request: TracedRequest): void {
+    // Callbacks and server objects share their IDs. Passing an ID that already belongs to a callback, and has been
+    // received from the server since, passes the server object, keeping the callback's origin.
+    if (this._callbackOriginMap.has(scriptObjectId) && this._receivedScriptObjectIds.has(scriptObjectId)) {
+      return;
+    }
+
+    this._receivedScriptObjectIds.delete(scriptObjectId);
+    addTracked(this._callbackOriginMap, scriptObjectId, request);
+  }
+
+  private _recordReceivedScriptObjects(values: unknown[]): void {
+    for (const value of values) {
+      if (isScriptObject(value)) {
+        addTracked(this._receivedScriptObjectIds, value.scriptObject, true);
+      }
+    }
+  }
+
+  private _emit(entry: TraceEntry): void {
+    this._options.logger?.(formatTraceEntry(entry));
+    this.onTrace?.(entry);
+  }
+
+  private _describeRequest(message: JSONRPCMessage): TracedRequest {
+    const [target, memberName] = message.params ?? [];
+    const request: TracedRequest = {requestId: message.id, method: message.method};
+
+    if (isScriptObject(target)) {
+      request.targetId = target.scriptObject;
+
+      if (typeof memberName === 'string' && message.method !== API_CLIENT_METHOD_CALLBACK) {
+        request.memberName = memberName;
+      }
+    }
+
+    return request;
+  }
+
+  private _getArgs(message: JSONRPCMessage): unknown[] {
+    const params = message.params ?? [];
+
+    if (message.method === API_SERVER_METHOD_AUTHENTICATE && this._options.redact !== false) {
+      return params.map(() => REDACTED_VALUE);
+    }
+
+    if (!isScriptObject(params[0])) {
+      return params;
+    }
+
+    return params.slice(message.method === API_CLIENT_METHOD_CALLBACK ? 1 : 2);
+  }
+
+  private _recordLatency(request: TracedRequest, latency: number): void {
+    const key = request.memberName === undefined ? `${request.method}` : `${request.method} ${request.memberName}`;
+    const stats = this._latencyStats.get(key);
+
+    if (stats === undefined) {
+      this._latencyStats.set(key, {count: 1, min: latency, max: latency, total: latency});
+    } else {
+      stats.count += 1;
+      stats.min = Math.min(stats.min, latency);
+      stats.max = Math.max(stats.max, latency);
+      stats.total += latency;
+    }
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Builds the path describing how an object was obtained, starting from the root object, e.g. `activeCall.contact`.
+ * Method results get a `()` suffix, and callback arguments get a `(<callback position>)[<argument position>]` suffix.
+ * The root object's path is `''`.
+ */
+export function joinPath(path: string, member: string): string {
+  return path ? `${path}.${member}` : member;
+}
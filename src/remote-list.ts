@@ -0,0 +1,144 @@
+import {ListItemError} from './errors';
+
+/**
+ * An API list object, e.g. `Phone.calls`, `Phone.contacts` or `Contact.phones`.
+ */
+export interface ListObject {
+  readonly count: Promise<number>;
+  itemAt(index: number, callback: (result: number, item: any) => unknown): Promise<unknown>;
+}
+
+export interface RemoteListOptions {
+  /**
+   * How many items to request at a time. Defaults to `1`.
+   */
+  concurrency?: number;
+  /**
+   * Skips the items that can't be obtained, e.g. calls that ended while listing them, instead of failing with a {@link ListItemError}.
+   */
+  skipFailedItems?: boolean;
+}
+
+/**
+ * Provides the items of an API list object as promises and via `for await...of`.
+ * Instances are created via {@link RPCManager.list()}.
+ *
+ * ```js
+ * for await (const call of rpcManager.list(zoiperAPI.calls)) {
+ *   console.log(await call.phone);
+ * }
+ * ```
+ */
+export class RemoteList<T extends object = any> implements AsyncIterable<T> {
+  private _list: Promise<ListObject>;
+  private _getOKResult: () => number;
+  private _options: RemoteListOptions;
+
+  constructor(list: ListObject | Promise<ListObject>, getOKResult: () => number, options: RemoteListOptions = {}) {
+    this._list = Promise.resolve(list);
+    this._getOKResult = getOKResult;
+    this._options = options;
+  }
+
+  /**
+   * The number of items in the list.
+   */
+  async count(): Promise<number> {
+    const list = await this._list;
+
+    return list.count;
+  }
+
+  /**
+   * Gets a single item.
+   * @param index The position of the item.
+   * @throws {ListItemError} When the server fails to provide the item.
+   */
+  async itemAt(index: number): Promise<T> {
+    const list = await this._list;
+    let response: {result: number, item: T} | undefined;
+
+    // The callback is only known to the manager while `itemAt` is in progress, so the item is captured in it
+    await list.itemAt(index, (result, item) => {
+      response = {result, item};
+    });
+
+    if (response === undefined) {
+      throw new ListItemError(index, undefined, 'The list did not provide the item');
+    }
+
+    if (response.result !== this._getOKResult() || response.item === null) {
+      throw new ListItemError(index, response.result);
+    }
+
+    return response.item;
+  }
+
+  /**
+   * Gets the items from `start` up to, but not including, `end`. Negative positions count from the end of the list.
+   */
+  async slice(start: number = 0, end?: number): Promise<T[]> {
+    const count = await this.count();
+    const toIndex = (position: number) => Math.min(Math.max(position < 0 ? count + position : position, 0), count);
+    const indices: number[] = [];
+
+    for (let index = toIndex(start); index < toIndex(end ?? count); index += 1) {
+      indices.push(index);
+    }
+
+    const items = await this._getItems(indices);
+
+    return items.filter((item): item is T => item !== undefined);
+  }
+
+  /**
+   * Gets all items.
+   */
+  toArray(): Promise<T[]> {
+    return this.slice();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    const count = await this.count();
+    const concurrency = Math.max(this._options.concurrency ?? 1, 1);
+
+    for (let index = 0; index < count; index += concurrency) {
+      const indices = [];
+
+      for (let i = index; i < Math.min(index + concurrency, count); i += 1) {
+        indices.push(i);
+      }
+
+      for (const item of await this._getItems(indices)) {
+        if (item !== undefined) {
+          yield item;
+        }
+      }
+    }
+  }
+
+  private async _getItems(indices: number[]): Promise<(T | undefined)[]> {
+    const items: (T | undefined)[] = new Array(indices.length);
+    let nextPosition = 0;
+
+    const worker = async () => {
+      while (nextPosition < indices.length) {
+        const position = nextPosition;
+
+        nextPosition += 1;
+        items[position] = await this.itemAt(indices[position]).catch((ex) => {
+          if (this._options.skipFailedItems && ex instanceof ListItemError) {
+            return undefined;
+          }
+
+          throw ex;
+        });
+      }
+    };
+    const workerCount = Math.min(Math.max(this._options.concurrency ?? 1, 1), indices.length);
+
+    await Promise.all(Array.from({length: workerCount}, worker));
+
+    return items;
+  }
+}
@@ -16,44 +16,370 @@ import {
   API_VALUE_TYPE_SCRIPT_OBJECT,
   API_VALUE_INVALID_SCRIPT_OBJECT,
 } from './const/rpc-values';
+import {AccessPolicy, getAccessDenial, MemberAccess} from './access-policy';
+import {DispatchQueue} from './dispatch-queue';
+import {
+  AccessDeniedError,
+  AuthenticationError,
+  CallbackNotFoundError,
+  RemoteError,
+  RequestAbortedError,
+  ReleasedScriptObjectError,
+  RequestTimeoutError,
+  ResultError,
+  RPCErrorContext,
+  SerializationError,
+  TransportClosedError,
+  UnknownScriptObjectError,
+} from './errors';
+import {JSONRPCMessage, RPCInterceptor} from './interceptors/interceptor';
+import {joinPath} from './member-path';
+import {ListObject, RemoteList, RemoteListOptions} from './remote-list';
 
 type SerializedEmptyScriptObject = {type: typeof API_VALUE_TYPE_EMPTY};
 type SerializedScriptObject = {type: typeof API_VALUE_TYPE_SCRIPT_OBJECT, scriptObject: number};
 type SerializedValue = boolean | number | string | SerializedEmptyScriptObject | SerializedScriptObject;
 type SerializableObject = object;
-type SerializableValue = boolean | number | string | SerializableObject | undefined | null;
+/**
+ * A value that can be passed to or obtained from the server: a primitive, an object obtained from the server,
+ * or a callback.
+ */
+export type SerializableValue = boolean | number | string | SerializableObject | undefined | null;
+
+export interface RequestOptions {
+  /**
+   * Time in milliseconds after which the request gets rejected with a {@link RequestTimeoutError}.
+   * Overrides {@link RPCManagerOptions.requestTimeout}, `0` disables the timeout.
+   */
+  timeout?: number;
+  /**
+   * Rejects the request with a {@link RequestAbortedError} when aborted.
+   */
+  signal?: AbortSignal;
+}
+
+export interface RPCManagerOptions {
+  /**
+   * Default timeout in milliseconds for every request sent to the server. Defaults to `0` - no timeout.
+   */
+  requestTimeout?: number;
+  /**
+   * Reuses the property and method lists of objects obtained the same way, e.g. the values of `Phone.activeCall`,
+   * or the items passed to the callback of `CallList.itemAt`, instead of describing each object anew.
+   * Use {@link RPCManager.invalidateDescriptions()} to discard the cached lists.
+   */
+  cacheDescriptions?: boolean;
+  /**
+   * Adds a `promise()` function to every API method, that passes a callback as the last argument and waits for it
+   * to be invoked, e.g. `const [result, call] = await zoiperAPI.createCall.promise('1001', false, '')`.
+   * The promise gets rejected with a {@link ResultError} if the result code passed to the callback,
+   * or the one returned by the method, isn't `Phone.constants.EAPI_ERROR_OK`.
+   */
+  promiseMethods?: boolean;
+  /**
+   * Time in milliseconds to wait for the callback of a `promise()` function. Defaults to {@link requestTimeout}.
+   */
+  callbackTimeout?: number;
+  /**
+   * Lets objects obtained from the server get garbage collected once the application no longer references them,
+   * instead of keeping them cached for the lifetime of the manager. Requires `FinalizationRegistry` support.
+   */
+  autoRelease?: boolean;
+  /**
+   * Sends the requests issued in the same tick as a single JSON-RPC batch. Falls back to sending them one by one
+   * if the server rejects batches.
+   */
+  batchRequests?: boolean;
+  /**
+   * Restricts the properties and methods that can be accessed, e.g. when the objects are handed to third-party code.
+   * Denied requests fail with an {@link AccessDeniedError} without being sent. Doesn't apply to the requests
+   * the manager issues itself, i.e. reading the constants and registering the global callbacks.
+   */
+  accessPolicy?: AccessPolicy;
+  /**
+   * Orders the invocations of global callbacks, and limits how many of them are handled at a time.
+   * By default, each invocation is handled as soon as it arrives, so listeners awaiting other requests
+   * may finish handling events out of order.
+   */
+  callbackDispatch?: CallbackDispatchOptions;
+  /**
+   * The paths of the members the application relies on, e.g. `versionPhone` or `optionsGeneral.recordCalls`,
+   * which {@link RPCManager.initialize()} checks for. Missing ones are reported via {@link RPCManager.onMissingMembers},
+   * which needs to be set along with this option.
+   * Members of objects that can't be reached at the time, e.g. `activeCall.hangup` without an active call, are skipped.
+   * Use `listApiMembers()` to list the members of the snapshot the root object type was generated from.
+   */
+  expectedMembers?: string[];
+  /**
+   * Fetches the values of `Phone.constants` on {@link RPCManager.initialize()}. Defaults to `true`.
+   * Takes `N + 3` extra requests, `N` being the number of constants. Lists, `promise()` functions and the helpers
+   * checking result codes require the constants.
+   */
+  loadConstants?: boolean;
+}
+
+/**
+ * How the invocations of global callbacks are ordered:
+ * - `none` - no ordering, invocations are handled as soon as they arrive.
+ * - `callback` - one at a time per callback name, e.g. `call`, in the order the server sent them.
+ * - `target` - one at a time per object passed as the first argument, e.g. per call for `call`,
+ *   or per callback name if the first argument isn't an object.
+ * - `all` - one at a time, in the order the server sent them.
+ */
+export type CallbackOrder = 'none' | 'callback' | 'target' | 'all';
+
+export interface CallbackDispatchOptions {
+  /**
+   * Defaults to `none`.
+   */
+  order?: CallbackOrder;
+  /**
+   * The maximum number of invocations handled at a time. Defaults to `Infinity`.
+   * Listeners waiting for another global callback need a limit of at least `2`, and an order that doesn't queue
+   * that callback behind them.
+   */
+  concurrency?: number;
+}
+
+/**
+ * The objects and callbacks known to a {@link RPCManager}, see {@link RPCManager.getDiagnostics()}.
+ */
+export interface RPCManagerDiagnostics {
+  /**
+   * The IDs of the cached objects obtained from the server.
+   */
+  scriptObjectIds: number[];
+  /**
+   * The IDs of the callbacks the server can currently invoke.
+   */
+  callbackIds: number[];
+  pendingRequestCount: number;
+}
+
+/**
+ * Round-trip time percentiles in milliseconds, see {@link RPCManagerMetrics}. All `0` while there are no samples.
+ */
+export interface LatencyPercentiles {
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * Request and callback statistics, see {@link RPCManager.getMetrics()}.
+ */
+export interface RPCManagerMetrics {
+  /**
+   * The round-trip times of the last 1000 requests that got a response, including error responses.
+   */
+  latency: LatencyPercentiles;
+  /**
+   * The number of requests waiting for a response.
+   */
+  inFlightRequestCount: number;
+  /**
+   * The average number of callback invocations per second over the last 10 seconds.
+   */
+  callbacksPerSecond: number;
+}
+
+/**
+ * The values of `Phone.constants`, as provided by {@link RPCManager.constants}.
+ * Typed after the `constants` property of the root object type, if it has one.
+ */
+export type Constants<T> = T extends {constants: infer C}
+  ? {readonly [K in keyof Awaited<C>]: Awaited<Awaited<C>[K]>}
+  : Readonly<Record<string, number>>;
+
+/**
+ * Maps global callback names, e.g. `call` or `history-filter`, to the arguments their listeners receive.
+ */
+export type EventMap = Record<string, unknown[]>;
+
+export interface EventIteratorOptions {
+  /**
+   * Ends the iteration when aborted.
+   */
+  signal?: AbortSignal;
+}
+
+interface EventListenerEntry {
+  listener: Function;
+  once: boolean;
+}
+
+interface ScriptObjectDescription {
+  properties: string[];
+  methods: string[];
+}
+
+interface InternalRequestOptions extends RequestOptions {
+  bypassPolicy?: boolean;
+}
+
+interface PendingRequest {
+  context: RPCErrorContext;
+  reject(reason?: Error): void;
+}
+
+interface SentBatch {
+  messages: JSONRPCMessage[];
+  pendingIds: Set<unknown>;
+}
+
+const ACCESS_METHODS = {
+  get: API_SERVER_METHOD_GET_VALUE,
+  set: API_SERVER_METHOD_SET_VALUE,
+  call: API_SERVER_METHOD_CALL_FUNCTION,
+};
+
+const BYPASS_POLICY: InternalRequestOptions = {bypassPolicy: true};
+const LATENCY_SAMPLE_COUNT = 1000;
+const CALLBACK_RATE_PERIOD = 10000;
 
 function isPlainValueType(value: unknown): value is boolean | number | string {
   return ['boolean', 'number', 'string'].includes(typeof value);
 }
 
+function getPercentile(sortedValues: number[], percentile: number): number {
+  return sortedValues.length === 0 ? 0 : sortedValues[Math.ceil(sortedValues.length * percentile / 100) - 1];
+}
+
+function isSerializedScriptObject(value: unknown): value is SerializedScriptObject {
+  return typeof value === 'object' && value !== null && (value as SerializedScriptObject).type === API_VALUE_TYPE_SCRIPT_OBJECT;
+}
+
+function isJSONRPCError(value: unknown): value is {code: number, message: string, data?: unknown} {
+  return typeof value === 'object' && value !== null && typeof (value as {code: unknown}).code === 'number';
+}
+
 /**
  * Manages the communication between the client and the Zoiper5 RPC API server.
  */
-export class RPCManager<T extends SerializableObject = any> {
+export class RPCManager<T extends SerializableObject = any, TEvents extends EventMap = Record<string, any[]>> {
   private _lastScriptObjectId: number;
   private _scriptObjectIdMap: WeakMap<SerializableObject, number>;
-  private _globalCallbacksMap: Record<string, Function>;
+  private _scriptObjectMap: Map<number, Promise<SerializableObject>>;
+  private _scriptObjectRefMap: Map<number, WeakRef<SerializableObject>>;
+  private _serializedScriptObjectMap: WeakMap<SerializableObject, SerializedScriptObject>;
+  private _releasedScriptObjects: WeakSet<SerializedScriptObject>;
+  private _finalizationRegistry?: FinalizationRegistry<number>;
+  private _scriptObjectPathMap: WeakMap<SerializableObject, string | null>;
+  private _descriptionCache: Map<string, Promise<ScriptObjectDescription>>;
+  private _listenerMap: Map<string, EventListenerEntry[]>;
+  private _dispatcherMap: Map<string, Function>;
+  private _registeredDispatchers: Set<Function>;
+  private _globalCallbacks: Function[];
+  private _awaitedCallbacks: Function[];
+  private _retainedCallbacks: Function[];
   private _scriptObjectListStack: SerializableObject[][];
   private _jrpc: simple_jsonrpc;
+  private _token?: string;
+  private _rootObject?: SerializableObject;
+  private _serializedRootObject?: SerializedScriptObject;
+  private _options: RPCManagerOptions;
+  private _pendingRequests: Set<PendingRequest>;
+  private _lastRequestId?: number;
+  private _constants?: Constants<T>;
+  private _interceptors: RPCInterceptor[];
+  private _queuedRequests: JSONRPCMessage[];
+  private _sentBatches: SentBatch[];
+  private _isBatchingSupported: boolean;
+  private _dispatchQueue?: DispatchQueue;
+  private _latencySamples: number[];
+  private _callbackTimes: number[];
+
+  /**
+   * Called when a global callback listener throws, or when registering a global callback with the server fails.
+   * If not set, listener errors are reported to the server instead.
+   * @param error The error.
+   * @param name The name of the global callback.
+   * @param args The arguments the listener failed to handle, e.g. to log or retry the event.
+   * Not provided for registration failures.
+   */
+  onCallbackError?(error: unknown, name: string, args?: unknown[]): void;
+
+  /**
+   * Called when an interceptor added via {@link use()} throws. The message is passed on as the interceptor received it,
+   * so that a failing interceptor doesn't drop responses or callback invocations.
+   * @param error The error.
+   * @param message The message the interceptor failed to handle.
+   */
+  onInterceptorError?(error: unknown, message: JSONRPCMessage): void;
+
+  /**
+   * Called by {@link initialize()} with the {@link RPCManagerOptions.expectedMembers} that the server doesn't provide,
+   * e.g. after a Zoiper5 upgrade renamed them.
+   * @param paths The paths of the missing members.
+   */
+  onMissingMembers?(paths: string[]): void;
 
   /**
    * Creates and configures a {@link RPCManager} instance that needs to be initialized via {@link initialize()}.
+   * @param globalCallbacksMap Global callback listeners, same as adding them via {@link on()}.
    */
-  constructor(globalCallbacksMap: Record<string, Function>) {
+  constructor(globalCallbacksMap: Record<string, Function> = {}, options: RPCManagerOptions = {}) {
+    this._options = options;
+    this._pendingRequests = new Set();
     this._lastScriptObjectId = API_VALUE_INVALID_SCRIPT_OBJECT;
     this._scriptObjectIdMap = new WeakMap();
+    this._scriptObjectMap = new Map();
+    this._scriptObjectRefMap = new Map();
+    this._serializedScriptObjectMap = new WeakMap();
+    this._releasedScriptObjects = new WeakSet();
+    this._scriptObjectPathMap = new WeakMap();
+    this._descriptionCache = new Map();
+
+    this._listenerMap = new Map();
+    this._dispatcherMap = new Map();
+    this._registeredDispatchers = new Set();
+    this._globalCallbacks = [];
+    this._awaitedCallbacks = [];
+    this._retainedCallbacks = [];
+    // Awaited and retained callbacks may be invoked after the method that they were passed to completes
+    this._scriptObjectListStack = [this._globalCallbacks, this._awaitedCallbacks, this._retainedCallbacks];
+
+    if (options.callbackDispatch) {
+      this._dispatchQueue = new DispatchQueue(options.callbackDispatch.concurrency);
+    }
 
-    const globalCallbackFunctions = Object.values(globalCallbacksMap);
+    if (options.autoRelease) {
+      this._finalizationRegistry = new FinalizationRegistry((scriptObjectId) => {
+        if (this._scriptObjectRefMap.get(scriptObjectId)?.deref() === undefined) {
+          this._scriptObjectRefMap.delete(scriptObjectId);
+        }
+      });
+    }
 
-    globalCallbackFunctions.forEach((fn) => this._assignScriptObjectId(fn));
+    for (const [name, fn] of Object.entries(globalCallbacksMap)) {
+      this.on(name, fn as (...args: any[]) => unknown);
+    }
 
-    this._globalCallbacksMap = globalCallbacksMap;
-    this._scriptObjectListStack = [globalCallbackFunctions];
     this._jrpc = new simple_jsonrpc();
 
+    this._interceptors = [];
+    this._queuedRequests = [];
+    this._sentBatches = [];
+    this._isBatchingSupported = true;
+    this._latencySamples = [];
+    this._callbackTimes = [];
     this._jrpc.toStream = (message: string) => {
-      this.sendMessage(message);
+      let parsedMessage = JSON.parse(message);
+
+      this._lastRequestId = parsedMessage.id;
+
+      if (this._interceptors.length > 0) {
+        parsedMessage = this._interceptMessage(parsedMessage, 'onOutgoingMessage');
+        message = JSON.stringify(parsedMessage);
+      }
+
+      if (this._options.batchRequests && this._isBatchingSupported && parsedMessage.method !== undefined && parsedMessage.id !== undefined) {
+        this._queueRequest(parsedMessage);
+      } else {
+        this.sendMessage(message);
+      }
     };
 
     this._jrpc.on(API_CLIENT_METHOD_CALLBACK, (serializedTarget: SerializedScriptObject, ...serializedArgs: SerializedValue[]) => {
@@ -66,27 +392,470 @@ export class RPCManager<T extends SerializableObject = any> {
    * and starts managing the client-server communication.
    * @param token An API token obtained in advance.
    * @returns An instance of the Zoiper5 API root object - an instance of class `Phone`.
+   * @throws {Error} When {@link RPCManagerOptions.expectedMembers} is set without {@link onMissingMembers}.
    */
   async initialize(token: string): Promise<T> {
-    await this._jrpc.call(API_SERVER_METHOD_AUTHENTICATE, [token]);
-    const response = await this._jrpc.call(API_SERVER_METHOD_GET_ROOT_OBJECT);
-    const apiRootObject = await this._deserialize(response);
+    if (this._options.expectedMembers && !this.onMissingMembers) {
+      throw new Error('The `expectedMembers` option requires `onMissingMembers` to be set');
+    }
+
+    await this._request(API_SERVER_METHOD_AUTHENTICATE, [token]);
+    const response: SerializedScriptObject = await this._request(API_SERVER_METHOD_GET_ROOT_OBJECT);
+    const apiRootObject = await this._deserialize(response, '') as SerializableObject;
+
+    // Global callbacks and the members of an initialized manager may rely on the constants
+    if (this._options.loadConstants !== false) {
+      await this._loadConstants(response);
+    }
+
+    this._token = token;
+    this._rootObject = apiRootObject;
+    this._serializedRootObject = response;
+
+    await this._registerGlobalCallbacks();
 
-    for (const [name, fn] of Object.entries(this._globalCallbacksMap)) {
-      await (apiRootObject as {registerCallback(name: string, fn: Function): Promise<void>}).registerCallback(name, fn);
+    if (this._options.expectedMembers) {
+      await this._checkExpectedMembers(this._options.expectedMembers);
     }
 
     return apiRootObject as T;
   }
 
+  /**
+   * The values of `Phone.constants`, fetched once by {@link initialize()}, e.g. `rpcManager.constants.EAPI_ERROR_OK`.
+   * @throws {Error} When accessed before the initialization, or with the `loadConstants` option disabled.
+   */
+  get constants(): Constants<T> {
+    if (this._options.loadConstants === false) {
+      throw new Error('The constants aren\'t loaded with the `loadConstants` option disabled');
+    }
+
+    if (this._constants === undefined) {
+      throw new Error('The constants are available once the manager is initialized');
+    }
+
+    return this._constants;
+  }
+
+  /**
+   * Finds the name of a constant by its value, e.g. to log a result code. Different constants may share a value,
+   * so a prefix should be provided to pick the intended group, e.g. `EAPI_ERROR_` or `EORIGIN_`.
+   * @param value The constant value.
+   * @param prefix The prefix of the constant name.
+   * @returns The name of the first matching constant, or `undefined` if there is none.
+   */
+  getConstantName(value: unknown, prefix: string = ''): string | undefined {
+    return Object.keys(this._constants ?? {}).find((name) => {
+      return name.startsWith(prefix) && (this._constants as Record<string, unknown>)[name] === value;
+    });
+  }
+
+  /**
+   * Whether {@link initialize()} has completed successfully.
+   */
+  get isInitialized(): boolean {
+    return this._rootObject !== undefined;
+  }
+
+  /**
+   * Restores the session on a new connection, so that the root object returned by {@link initialize()} keeps working.
+   * Authenticates with the token used for the initialization, obtains the root object again
+   * and registers the global callbacks anew. Does nothing if the manager has not been initialized.
+   * Objects other than the root object, obtained before the session got interrupted, are not restored,
+   * and cached property and method lists are discarded.
+   */
+  async resume(): Promise<void> {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    await this._request(API_SERVER_METHOD_AUTHENTICATE, [this._token]);
+    const response: SerializedScriptObject = await this._request(API_SERVER_METHOD_GET_ROOT_OBJECT);
+
+    // The root object's getters, setters and methods reference this very object
+    this._serializedRootObject!.scriptObject = response.scriptObject;
+    this._scriptObjectIdMap.set(this._rootObject!, response.scriptObject);
+    // Script object IDs are meaningless in the new session
+    this._scriptObjectMap.clear();
+    this._scriptObjectRefMap.clear();
+    this._scriptObjectMap.set(response.scriptObject, Promise.resolve(this._rootObject!));
+    this.invalidateDescriptions();
+
+    await this._registerGlobalCallbacks();
+  }
+
+  /**
+   * Gets the value of a property, same as the property getter, but allows passing request options.
+   * @param target An object obtained from the server.
+   * @param propertyName The name of the property.
+   * @param options Options applied to the request.
+   */
+  async get(target: SerializableObject, propertyName: string, options?: RequestOptions): Promise<SerializableValue> {
+    return this._createGetter(this._serialize(target), propertyName, this._getScriptObjectPath(target), options)();
+  }
+
+  /**
+   * Sets the value of a property, same as the property setter, but allows passing request options
+   * and waiting for the server's response.
+   * @param target An object obtained from the server.
+   * @param propertyName The name of the property.
+   * @param value The new value of the property.
+   * @param options Options applied to the request.
+   */
+  async set(target: SerializableObject, propertyName: string, value: SerializableValue, options?: RequestOptions): Promise<void> {
+    return this._createSetter(this._serialize(target), propertyName, this._getScriptObjectPath(target), options)(value);
+  }
+
+  /**
+   * Calls a method, same as calling the method directly, but allows passing request options.
+   * @param target An object obtained from the server.
+   * @param methodName The name of the method.
+   * @param args The method arguments.
+   * @param options Options applied to the request.
+   */
+  async call(target: SerializableObject, methodName: string, args: SerializableValue[] = [], options?: RequestOptions): Promise<SerializableValue> {
+    return this._callAPIMethod(this._serialize(target), methodName, args, this._getScriptObjectPath(target), options);
+  }
+
+  /**
+   * Adds a listener for a global callback, e.g. `call` or `history-filter`. The callback gets registered with the server
+   * along with its first listener, or on {@link initialize()}. Listeners are invoked in the order they were added,
+   * and errors thrown by one of them don't prevent invoking the others.
+   * @param name The name of the global callback.
+   * @param listener Invoked with the callback arguments.
+   */
+  on<K extends keyof TEvents & string>(name: K, listener: (...args: TEvents[K]) => unknown): this {
+    this._addListener(name, listener, false);
+
+    return this;
+  }
+
+  /**
+   * Adds a listener that gets removed after its first invocation.
+   * @param name The name of the global callback.
+   * @param listener Invoked with the callback arguments.
+   */
+  once<K extends keyof TEvents & string>(name: K, listener: (...args: TEvents[K]) => unknown): this {
+    this._addListener(name, listener, true);
+
+    return this;
+  }
+
+  /**
+   * Removes a listener added via {@link on()} or {@link once()}. The callback stays registered with the server,
+   * as the API provides no way to unregister it.
+   * @param name The name of the global callback.
+   * @param listener The listener to remove.
+   */
+  off<K extends keyof TEvents & string>(name: K, listener: (...args: TEvents[K]) => unknown): this {
+    const listenerEntries = this._listenerMap.get(name) ?? [];
+
+    listenerEntries
+      .filter((listenerEntry) => listenerEntry.listener === listener)
+      .forEach((listenerEntry) => this._removeListenerEntry(name, listenerEntry));
+
+    return this;
+  }
+
+  /**
+   * Iterates over the invocations of a global callback via `for await...of`, providing the callback arguments.
+   * Invocations are buffered until consumed. Breaking out of the loop, or aborting the signal, ends the iteration.
+   * @param name The name of the global callback.
+   */
+  events<K extends keyof TEvents & string>(name: K, options: EventIteratorOptions = {}): AsyncIterableIterator<TEvents[K]> {
+    const {signal} = options;
+    const queue: TEvents[K][] = [];
+    let wakeUp: (() => void) | undefined;
+    let isDone = signal?.aborted ?? false;
+
+    const listener = (...args: TEvents[K]) => {
+      queue.push(args);
+      wakeUp?.();
+    };
+    const finish = () => {
+      isDone = true;
+      this.off(name, listener);
+      signal?.removeEventListener('abort', finish);
+      wakeUp?.();
+    };
+
+    if (!isDone) {
+      this.on(name, listener);
+      signal?.addEventListener('abort', finish);
+    }
+
+    return {
+      async next(): Promise<IteratorResult<TEvents[K]>> {
+        while (queue.length === 0 && !isDone) {
+          await new Promise<void>((resolve) => wakeUp = resolve);
+          wakeUp = undefined;
+        }
+
+        return queue.length > 0 ? {value: queue.shift()!, done: false} : {value: undefined, done: true};
+      },
+      async return(): Promise<IteratorResult<TEvents[K]>> {
+        finish();
+        queue.length = 0;
+
+        return {value: undefined, done: true};
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  /**
+   * Keeps a callback invokable by the server after the method it was passed to completes, until it gets released.
+   * Needed for callbacks that the server stores, as other callbacks are only known while the method is in progress.
+   * @param callback The callback to retain.
+   * @returns The same callback.
+   */
+  retainCallback<F extends Function>(callback: F): F {
+    this._assignScriptObjectId(callback);
+
+    if (!this._retainedCallbacks.includes(callback)) {
+      this._retainedCallbacks.push(callback);
+    }
+
+    return callback;
+  }
+
+  /**
+   * Releases an object obtained from the server, or a callback retained via {@link retainCallback()}.
+   * Released objects get removed from the cache, and further requests through them are rejected
+   * with a {@link ReleasedScriptObjectError}. The server gets no notification, as the API provides no way to do so.
+   * Released callbacks can no longer be invoked by the server.
+   * @param object The object or callback to release.
+   */
+  release(object: SerializableObject): void {
+    if (object === this._rootObject) {
+      throw new Error('The root object can\'t be released');
+    }
+
+    const retainedCallbackIndex = this._retainedCallbacks.indexOf(object as Function);
+
+    if (retainedCallbackIndex !== -1) {
+      this._retainedCallbacks.splice(retainedCallbackIndex, 1);
+      return;
+    }
+
+    const serializedScriptObject = this._serializedScriptObjectMap.get(object);
+
+    if (serializedScriptObject === undefined || this._releasedScriptObjects.has(serializedScriptObject)) {
+      return;
+    }
+
+    const scriptObjectId = serializedScriptObject.scriptObject;
+
+    this._releasedScriptObjects.add(serializedScriptObject);
+    this._scriptObjectIdMap.delete(object);
+    this._scriptObjectRefMap.delete(scriptObjectId);
+    this._finalizationRegistry?.unregister(object);
+    // The cache may already hold a newer instance of the same object
+    this._scriptObjectMap.get(scriptObjectId)?.then((scriptObject) => {
+      if (scriptObject === object) {
+        this._scriptObjectMap.delete(scriptObjectId);
+      }
+    }, () => {});
+  }
+
+  /**
+   * Releases all objects obtained from the server, except the root object, and all retained callbacks.
+   */
+  releaseAll(): void {
+    this._retainedCallbacks.length = 0;
+
+    for (const scriptObject of this._scriptObjectRefMap.values()) {
+      const object = scriptObject.deref();
+
+      if (object !== undefined && object !== this._rootObject) {
+        this.release(object);
+      }
+    }
+
+    for (const scriptObject of this._scriptObjectMap.values()) {
+      scriptObject.then((object) => object !== this._rootObject && this.release(object), () => {});
+    }
+  }
+
+  /**
+   * Lists the objects and callbacks currently known to the manager, e.g. to look for leaks.
+   */
+  getDiagnostics(): RPCManagerDiagnostics {
+    const scriptObjectIds = [...this._scriptObjectMap.keys()];
+    const callbackIds = new Set<number>();
+
+    for (const [scriptObjectId, scriptObject] of this._scriptObjectRefMap) {
+      if (scriptObject.deref() !== undefined) {
+        scriptObjectIds.push(scriptObjectId);
+      }
+    }
+
+    for (const scriptObjectList of this._scriptObjectListStack) {
+      for (const scriptObject of scriptObjectList) {
+        const scriptObjectId = this._scriptObjectIdMap.get(scriptObject);
+
+        if (typeof scriptObject === 'function' && scriptObjectId !== undefined) {
+          callbackIds.add(scriptObjectId);
+        }
+      }
+    }
+
+    return {
+      scriptObjectIds: scriptObjectIds.sort((a, b) => a - b),
+      callbackIds: [...callbackIds].sort((a, b) => a - b),
+      pendingRequestCount: this._pendingRequests.size,
+    };
+  }
+
+  /**
+   * Provides request and callback statistics, e.g. for monitoring dashboards.
+   * {@link ConnectionManager.getMetrics()} adds connection related ones.
+   */
+  getMetrics(): RPCManagerMetrics {
+    const sortedSamples = [...this._latencySamples].sort((a, b) => a - b);
+    const periodStart = Date.now() - CALLBACK_RATE_PERIOD;
+
+    return {
+      latency: {
+        count: sortedSamples.length,
+        p50: getPercentile(sortedSamples, 50),
+        p90: getPercentile(sortedSamples, 90),
+        p99: getPercentile(sortedSamples, 99),
+        max: sortedSamples[sortedSamples.length - 1] ?? 0,
+      },
+      inFlightRequestCount: this._pendingRequests.size,
+      callbacksPerSecond: this._callbackTimes.filter((time) => time > periodStart).length / (CALLBACK_RATE_PERIOD / 1000),
+    };
+  }
+
+  /**
+   * Sends a lightweight request - a get of `Phone.versionPhone` - to check that the server responds.
+   * An error response counts as a response as well.
+   * @returns The round-trip time in milliseconds.
+   * @throws {Error} When called before the initialization.
+   */
+  async ping(options?: RequestOptions): Promise<number> {
+    if (!this.isInitialized) {
+      throw new Error('The manager needs to be initialized first');
+    }
+
+    const startTime = Date.now();
+
+    try {
+      await this._request(API_SERVER_METHOD_GET_VALUE, [this._serializedRootObject, 'versionPhone'], options);
+    } catch (ex) {
+      if (!(ex instanceof RemoteError)) {
+        throw ex;
+      }
+    }
+
+    return Date.now() - startTime;
+  }
+
+  /**
+   * Wraps an API list object - one with `count` and `itemAt(index, callback)` - allowing to get its items
+   * as promises and iterate over them via `for await...of`.
+   * @param list The list object, e.g. `Phone.calls`, `Phone.contacts` or `HistoryFilter.histories`.
+   */
+  list<TItem extends SerializableObject = any>(
+    list: ListObject | Promise<ListObject>,
+    options?: RemoteListOptions,
+  ): RemoteList<TItem> {
+    return new RemoteList(list, () => this._getOKResult(), options);
+  }
+
+  /**
+   * Discards the property and method lists cached due to {@link RPCManagerOptions.cacheDescriptions}.
+   * @param path Discards only the lists of objects obtained via this path, e.g. `activeCall`. Discards all lists if omitted.
+   */
+  invalidateDescriptions(path?: string): void {
+    if (path === undefined) {
+      this._descriptionCache.clear();
+    } else {
+      this._descriptionCache.delete(path);
+    }
+  }
+
+  /**
+   * Rejects all requests that are waiting for a response. Used when the connection to the server gets closed.
+   * @param reason The rejection reason, a {@link TransportClosedError} describing each request by default.
+   */
+  rejectPendingRequests(reason?: Error): void {
+    const pendingRequests = [...this._pendingRequests];
+
+    this._pendingRequests.clear();
+    this._queuedRequests = [];
+    this._sentBatches = [];
+    pendingRequests.forEach((pendingRequest) => pendingRequest.reject(reason));
+  }
+
   /**
    * Send a message from the server to the manager for proccessing.
    * @param message The message that gets sent to the manager.
    */
   processMessage(message: string): Promise<any> {
+    if (this._sentBatches.length > 0 && this._handleBatchResponse(message)) {
+      return Promise.resolve();
+    }
+
+    if (this._interceptors.length > 0) {
+      let parsedMessage;
+
+      try {
+        parsedMessage = JSON.parse(message);
+      } catch (ex) {
+        // Leaves reporting the parse error to the JSON-RPC implementation
+        return this._jrpc.messageHandler(message);
+      }
+
+      message = JSON.stringify(this._interceptMessage(parsedMessage, 'onIncomingMessage'));
+    }
+
     return this._jrpc.messageHandler(message);
   }
 
+  /**
+   * Reads several properties at once. The requests are sent without waiting for each other's responses,
+   * and as a single batch if {@link RPCManagerOptions.batchRequests} is set.
+   * @param target An object obtained from the server.
+   * @param propertyNames The names of the properties.
+   * @param options Options applied to each request.
+   * @returns The property values keyed by property name.
+   */
+  async read<K extends string>(
+    target: SerializableObject,
+    propertyNames: K[],
+    options?: RequestOptions,
+  ): Promise<Record<K, SerializableValue>> {
+    const values = await Promise.all(propertyNames.map((propertyName) => this.get(target, propertyName, options)));
+
+    return propertyNames.reduce((result, propertyName, index) => {
+      result[propertyName] = values[index];
+
+      return result;
+    }, {} as Record<K, SerializableValue>);
+  }
+
+  /**
+   * Adds an interceptor that observes, and optionally replaces, the messages exchanged with the server.
+   * Outgoing messages pass through the interceptors in the order they were added, and incoming ones in reverse order.
+   * @param interceptor The interceptor, e.g. a {@link Tracer}.
+   * @returns A function that removes the interceptor.
+   */
+  use(interceptor: RPCInterceptor): () => void {
+    this._interceptors.push(interceptor);
+
+    return () => {
+      const index = this._interceptors.indexOf(interceptor);
+
+      if (index !== -1) {
+        this._interceptors.splice(index, 1);
+      }
+    };
+  }
+
   /**
    * Overridable method that the manager uses for sending messages to the server.
    * @virtual
@@ -97,6 +866,277 @@ export class RPCManager<T extends SerializableObject = any> {
     throw new Error('Method "sendMessage" is not implemented');
   }
 
+  private async _registerGlobalCallbacks(): Promise<void> {
+    // The server forgets the callbacks along with the session
+    this._registeredDispatchers.clear();
+
+    for (const name of this._dispatcherMap.keys()) {
+      await this._registerGlobalCallback(name);
+    }
+  }
+
+  private async _registerGlobalCallback(name: string): Promise<void> {
+    const dispatcher = this._dispatcherMap.get(name)!;
+
+    if (this._registeredDispatchers.has(dispatcher)) {
+      return;
+    }
+
+    this._registeredDispatchers.add(dispatcher);
+
+    try {
+      await this._callAPIMethod(this._serializedRootObject!, 'registerCallback', [name, dispatcher], '', BYPASS_POLICY);
+    } catch (ex) {
+      this._registeredDispatchers.delete(dispatcher);
+      throw ex;
+    }
+  }
+
+  private _addListener(name: string, listener: Function, once: boolean): void {
+    if (!this._dispatcherMap.has(name)) {
+      // A single callback per name gets registered with the server, and invokes the listeners
+      const dispatcher = (...args: unknown[]) => this._dispatchEvent(name, args);
+
+      this._assignScriptObjectId(dispatcher);
+      this._assignScriptObjectPath(dispatcher, `@${name}`);
+      this._dispatcherMap.set(name, dispatcher);
+      this._globalCallbacks.push(dispatcher);
+      this._listenerMap.set(name, []);
+
+      if (this.isInitialized) {
+        this._registerGlobalCallback(name).catch((error) => this.onCallbackError?.(error, name));
+      }
+    }
+
+    this._listenerMap.get(name)!.push({listener, once});
+  }
+
+  private async _dispatchEvent(name: string, args: unknown[]): Promise<void> {
+    const listenerEntries = this._listenerMap.get(name) ?? [];
+    const errors = [];
+
+    for (const listenerEntry of [...listenerEntries]) {
+      if (listenerEntry.once) {
+        this._removeListenerEntry(name, listenerEntry);
+      }
+
+      try {
+        await listenerEntry.listener(...args);
+      } catch (ex) {
+        errors.push(ex);
+      }
+    }
+
+    if (errors.length > 0 && !this.onCallbackError) {
+      throw errors[0];
+    }
+
+    errors.forEach((error) => this.onCallbackError?.(error, name, args));
+  }
+
+  private _removeListenerEntry(name: string, listenerEntry: EventListenerEntry): void {
+    const listenerEntries = this._listenerMap.get(name) ?? [];
+    const index = listenerEntries.indexOf(listenerEntry);
+
+    if (index !== -1) {
+      listenerEntries.splice(index, 1);
+    }
+  }
+
+  private _queueRequest(message: JSONRPCMessage): void {
+    this._queuedRequests.push(message);
+
+    if (this._queuedRequests.length === 1) {
+      Promise.resolve().then(() => this._sendQueuedRequests());
+    }
+  }
+
+  private _sendQueuedRequests(): void {
+    const messages = this._queuedRequests;
+
+    this._queuedRequests = [];
+
+    if (messages.length === 0) {
+      return;
+    }
+
+    try {
+      if (messages.length === 1 || !this._isBatchingSupported) {
+        messages.forEach((message) => this.sendMessage(JSON.stringify(message)));
+      } else {
+        this.sendMessage(JSON.stringify(messages));
+        this._sentBatches.push({messages, pendingIds: new Set(messages.map((message) => message.id))});
+      }
+    } catch (ex) {
+      // The requests were issued successfully, so they can only be rejected via their pending request entries
+      const ids = messages.map((message) => message.id);
+
+      [...this._pendingRequests]
+        .filter((pendingRequest) => ids.includes(pendingRequest.context.requestId))
+        .forEach((pendingRequest) => pendingRequest.reject(this._createRequestError(ex, pendingRequest.context) as Error));
+    }
+  }
+
+  /**
+   * Keeps track of the responses to sent batches, and resends the requests one by one if the server rejected a batch.
+   * @returns Whether the message was a batch rejection.
+   */
+  private _handleBatchResponse(message: string): boolean {
+    let parsedMessage;
+
+    try {
+      parsedMessage = JSON.parse(message);
+    } catch (ex) {
+      return false;
+    }
+
+    const responses: JSONRPCMessage[] = Array.isArray(parsedMessage) ? parsedMessage : [parsedMessage];
+
+    if (!Array.isArray(parsedMessage) && parsedMessage.id === null && parsedMessage.error) {
+      const rejectedBatch = this._sentBatches.shift()!;
+
+      this._isBatchingSupported = false;
+      rejectedBatch.messages
+        .filter((batchedMessage) => rejectedBatch.pendingIds.has(batchedMessage.id))
+        .forEach((batchedMessage) => this._queueRequest(batchedMessage));
+
+      return true;
+    }
+
+    for (const response of responses) {
+      this._sentBatches.forEach((sentBatch) => sentBatch.pendingIds.delete(response.id));
+    }
+
+    this._sentBatches = this._sentBatches.filter((sentBatch) => sentBatch.pendingIds.size > 0);
+
+    return false;
+  }
+
+  private _interceptMessage(
+    message: JSONRPCMessage | JSONRPCMessage[],
+    hook: 'onOutgoingMessage' | 'onIncomingMessage',
+  ): JSONRPCMessage | JSONRPCMessage[] {
+    if (Array.isArray(message)) {
+      return message.map((batchedMessage) => this._interceptMessage(batchedMessage, hook) as JSONRPCMessage);
+    }
+
+    const interceptors = hook === 'onOutgoingMessage' ? this._interceptors : [...this._interceptors].reverse();
+
+    return interceptors.reduce((interceptedMessage, interceptor) => {
+      try {
+        return interceptor[hook]?.(interceptedMessage) ?? interceptedMessage;
+      } catch (ex) {
+        this.onInterceptorError?.(ex, interceptedMessage);
+
+        return interceptedMessage;
+      }
+    }, message);
+  }
+
+  private async _loadConstants(serializedRootObject: SerializedScriptObject): Promise<void> {
+    const constants = await this._createGetter(serializedRootObject, 'constants', '', BYPASS_POLICY)() as SerializableObject;
+    const names = Object.entries(Object.getOwnPropertyDescriptors(constants))
+      .filter(([, descriptor]) => descriptor.get !== undefined)
+      .map(([name]) => name);
+    const values = await Promise.all(names.map((name) => {
+      return this._createGetter(this._serialize(constants), name, 'constants', BYPASS_POLICY)();
+    }));
+
+    this._constants = Object.freeze(Object.fromEntries(names.map((name, index) => [name, values[index]]))) as Constants<T>;
+  }
+
+  private async _checkExpectedMembers(paths: string[]): Promise<void> {
+    const objects = new Map<string, Promise<SerializableValue>>([['', Promise.resolve(this._rootObject)]]);
+    const splitPath = (path: string) => {
+      const index = path.lastIndexOf('.');
+
+      return index === -1 ? ['', path] : [path.slice(0, index), path.slice(index + 1)];
+    };
+    const getObject = (path: string): Promise<SerializableValue> => {
+      if (!objects.has(path)) {
+        const [parentPath, name] = splitPath(path);
+
+        objects.set(path, getObject(parentPath).then((parent) => {
+          if (typeof parent !== 'object' || parent === null || Object.getOwnPropertyDescriptor(parent, name)?.get === undefined) {
+            return undefined;
+          }
+
+          return this._createGetter(this._serialize(parent), name, this._getScriptObjectPath(parent), BYPASS_POLICY)();
+        }).catch(() => undefined));
+      }
+
+      return objects.get(path)!;
+    };
+    const missingPaths = (await Promise.all(paths.map(async (path) => {
+      const [parentPath, name] = splitPath(path);
+      const parent = await getObject(parentPath);
+
+      return typeof parent === 'object' && parent !== null && !(name in parent) ? [path] : [];
+    }))).flat();
+
+    if (missingPaths.length > 0) {
+      this.onMissingMembers!(missingPaths);
+    }
+  }
+
+  private _getOKResult(): number {
+    return (this.constants as Record<string, number>).EAPI_ERROR_OK;
+  }
+
+  /**
+   * Throws an {@link AccessDeniedError} if the access policy denies the access.
+   * @returns A promise of the confirmation via {@link AccessPolicy.confirm()}, if needed.
+   */
+  private _checkAccess(
+    access: MemberAccess,
+    serializedTarget: SerializedScriptObject,
+    options?: InternalRequestOptions,
+  ): Promise<void> | undefined {
+    const policy = this._options.accessPolicy;
+
+    if (policy === undefined || options?.bypassPolicy) {
+      return;
+    }
+
+    const context: RPCErrorContext = {
+      method: ACCESS_METHODS[access.type],
+      targetId: serializedTarget.scriptObject,
+      memberName: access.memberName,
+    };
+    const denial = getAccessDenial(policy, access);
+
+    if (denial !== undefined) {
+      throw new AccessDeniedError(access.path, denial, context);
+    }
+
+    if (access.type !== 'get' && policy.confirm) {
+      return Promise.resolve(policy.confirm(access)).then((isConfirmed) => {
+        if (!isConfirmed) {
+          throw new AccessDeniedError(access.path, 'the access was not confirmed', context);
+        }
+      });
+    }
+  }
+
+  private _assignScriptObjectPath(object: SerializableObject, path: string | undefined): void {
+    if (path === undefined) {
+      return;
+    }
+
+    const currentPath = this._scriptObjectPathMap.get(object);
+
+    if (currentPath === undefined) {
+      this._scriptObjectPathMap.set(object, path);
+    } else if (currentPath !== path) {
+      // The same callback is used in different places, its arguments can't be told apart
+      this._scriptObjectPathMap.set(object, null);
+    }
+  }
+
+  private _getScriptObjectPath(object: SerializableObject): string | undefined {
+    return this._scriptObjectPathMap.get(object) ?? undefined;
+  }
+
   private _assignScriptObjectId(object: SerializableObject): void {
     if (!this._scriptObjectIdMap.has(object)) {
       this._lastScriptObjectId += 1;
@@ -104,31 +1144,213 @@ export class RPCManager<T extends SerializableObject = any> {
     }
   }
 
-  private _createGetter(serializedTarget: SerializedScriptObject, propertyName: string): () => Promise<SerializableValue> {
+  private _request(method: string, params?: unknown[], options: RequestOptions = {}): Promise<any> {
+    const {timeout = this._options.requestTimeout ?? 0, signal} = options;
+    const [target, memberName] = params ?? [];
+    const context: RPCErrorContext = {
+      method,
+      targetId: isSerializedScriptObject(target) ? target.scriptObject : undefined,
+      memberName: isSerializedScriptObject(target) && typeof memberName === 'string' ? memberName : undefined,
+    };
+
+    if (isSerializedScriptObject(target) && this._releasedScriptObjects.has(target)) {
+      return Promise.reject(new ReleasedScriptObjectError(context));
+    }
+
+    return new Promise((resolve, reject) => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+      const pendingRequest: PendingRequest = {
+        context,
+        reject: (reason = new TransportClosedError(undefined, context)) => settle(() => reject(reason)),
+      };
+      const onAbort = () => settle(() => reject(new RequestAbortedError(context)));
+      const settle = (callback: () => void) => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+        this._pendingRequests.delete(pendingRequest);
+        callback();
+      };
+
+      if (signal?.aborted) {
+        reject(new RequestAbortedError(context));
+        return;
+      }
+
+      this._pendingRequests.add(pendingRequest);
+      signal?.addEventListener('abort', onAbort);
+
+      let response: Promise<unknown>;
+
+      try {
+        response = this._jrpc.call(method, params);
+      } catch (ex) {
+        response = Promise.reject(ex);
+      }
+
+      const startTime = Date.now();
+
+      context.requestId = this._lastRequestId;
+      response.then((result) => {
+        this._addLatencySample(Date.now() - startTime);
+        settle(() => resolve(result));
+      }, (error) => {
+        if (isJSONRPCError(error)) {
+          this._addLatencySample(Date.now() - startTime);
+        }
+
+        settle(() => reject(this._createRequestError(error, context)));
+      });
+
+      if (timeout > 0) {
+        timeoutId = setTimeout(() => settle(() => reject(new RequestTimeoutError(timeout, context))), timeout);
+      }
+    });
+  }
+
+  private _addLatencySample(latency: number): void {
+    this._latencySamples.push(latency);
+
+    if (this._latencySamples.length > LATENCY_SAMPLE_COUNT) {
+      this._latencySamples.shift();
+    }
+  }
+
+  private _createRequestError(error: unknown, context: RPCErrorContext): unknown {
+    if (error instanceof TransportClosedError) {
+      return new TransportClosedError(error.message, context);
+    }
+
+    if (isJSONRPCError(error)) {
+      return context.method === API_SERVER_METHOD_AUTHENTICATE ? new AuthenticationError(error, context) : new RemoteError(error, context);
+    }
+
+    return error;
+  }
+
+  private _createGetter(
+    serializedTarget: SerializedScriptObject,
+    propertyName: string,
+    path: string | undefined,
+    options?: InternalRequestOptions,
+  ): () => Promise<SerializableValue> {
+    const propertyPath = path === undefined ? undefined : joinPath(path, propertyName);
+
     return async () => {
-      const response = await this._jrpc.call(API_SERVER_METHOD_GET_VALUE, [
+      this._checkAccess({type: 'get', path: propertyPath, memberName: propertyName, args: []}, serializedTarget, options);
+
+      const response = await this._request(API_SERVER_METHOD_GET_VALUE, [
         serializedTarget,
         propertyName,
-      ]);
+      ], options);
 
-      return this._deserialize(response);
+      return this._deserialize(response, propertyPath);
     };
   }
 
-  private _createSetter(serializedTarget: SerializedScriptObject, propertyName: string): (value: SerializableValue) => Promise<void> {
-    return async (value) => {
-      await this._jrpc.call(API_SERVER_METHOD_SET_VALUE, [
+  private _createSetter(
+    serializedTarget: SerializedScriptObject,
+    propertyName: string,
+    path: string | undefined,
+    options?: RequestOptions,
+  ): (value: SerializableValue) => Promise<void> {
+    const propertyPath = path === undefined ? undefined : joinPath(path, propertyName);
+
+    return (value) => {
+      // Throws right away, as plain assignments don't observe the returned promise
+      const confirmation = this._checkAccess({type: 'set', path: propertyPath, memberName: propertyName, args: [value]}, serializedTarget);
+      const request = () => this._request(API_SERVER_METHOD_SET_VALUE, [
         serializedTarget,
         propertyName,
         this._serialize(value),
-      ]);
+      ], options).then(() => undefined);
+
+      // Requests issued in the same tick are batched, so there is no waiting unless needed
+      return confirmation ? confirmation.then(request) : request();
     };
   }
 
-  private _createMethod(serializedTarget: SerializedScriptObject, methodName: string): (...args: SerializableValue[]) => Promise<SerializableValue> {
-    return (...args: SerializableValue[]) => {
-      return this._callAPIMethod(serializedTarget, methodName, args);
+  private _createMethod(
+    serializedTarget: SerializedScriptObject,
+    methodName: string,
+    getPath: () => string | undefined,
+  ): (...args: SerializableValue[]) => Promise<SerializableValue> {
+    const method = (...args: SerializableValue[]) => {
+      return this._callAPIMethod(serializedTarget, methodName, args, getPath());
     };
+
+    if (this._options.promiseMethods) {
+      method.promise = (...args: SerializableValue[]) => {
+        return this._callAPIMethodAndAwaitCallback(serializedTarget, methodName, args, getPath());
+      };
+    }
+
+    return method;
+  }
+
+  private _callAPIMethodAndAwaitCallback(
+    serializedTarget: SerializedScriptObject,
+    methodName: string,
+    args: SerializableValue[],
+    path: string | undefined,
+  ): Promise<SerializableValue[]> {
+    const timeout = this._options.callbackTimeout ?? this._options.requestTimeout ?? 0;
+    const context: RPCErrorContext = {
+      method: API_SERVER_METHOD_CALL_FUNCTION,
+      targetId: serializedTarget.scriptObject,
+      memberName: methodName,
+    };
+    let okResult: number;
+
+    // Checked up front, as the callback has no way to report the constants missing
+    try {
+      okResult = this._getOKResult();
+    } catch (ex) {
+      return Promise.reject(ex);
+    }
+
+    return new Promise((resolve, reject) => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      let isSettled = false;
+
+      const pendingRequest: PendingRequest = {
+        context,
+        reject: (reason = new TransportClosedError(undefined, context)) => settle(() => reject(reason)),
+      };
+      const callback = (result: SerializableValue, ...callbackArgs: SerializableValue[]) => {
+        settle(() => {
+          if (result === okResult) {
+            resolve([result, ...callbackArgs]);
+          } else {
+            reject(new ResultError(result as number, context, this.getConstantName(result, 'EAPI_ERROR_')));
+          }
+        });
+      };
+      const settle = (fn: () => void) => {
+        if (isSettled) {
+          return;
+        }
+
+        isSettled = true;
+        clearTimeout(timeoutId);
+        this._pendingRequests.delete(pendingRequest);
+        this._awaitedCallbacks.splice(this._awaitedCallbacks.indexOf(callback), 1);
+        fn();
+      };
+
+      this._awaitedCallbacks.push(callback);
+      this._pendingRequests.add(pendingRequest);
+      this._callAPIMethod(serializedTarget, methodName, [...args, callback], path).then((result) => {
+        // A method failing right away may never invoke the callback
+        if (typeof result === 'number' && result !== okResult) {
+          settle(() => reject(new ResultError(result, context, this.getConstantName(result, 'EAPI_ERROR_'))));
+        }
+      }, (error) => settle(() => reject(error)));
+
+      if (timeout > 0) {
+        timeoutId = setTimeout(() => settle(() => reject(new RequestTimeoutError(timeout, context))), timeout);
+      }
+    });
   }
 
   private _findScriptObject(scriptObjectId: number): SerializableObject | undefined {
@@ -141,56 +1363,191 @@ export class RPCManager<T extends SerializableObject = any> {
     }
   }
 
-  private async _callAPIMethod(serializedTarget: SerializedScriptObject, methodName: string, args: SerializableValue[]): Promise<SerializableValue> {
+  private async _callAPIMethod(
+    serializedTarget: SerializedScriptObject,
+    methodName: string,
+    args: SerializableValue[],
+    path: string | undefined,
+    options?: InternalRequestOptions,
+  ): Promise<SerializableValue> {
     const scriptObjectList = args.filter((arg) => arg instanceof Object) as SerializableObject[];
+    const methodPath = path === undefined ? undefined : joinPath(path, methodName);
+
+    const confirmation = this._checkAccess({type: 'call', path: methodPath, memberName: methodName, args}, serializedTarget, options);
+
+    if (confirmation) {
+      await confirmation;
+    }
 
     scriptObjectList.forEach((obj) => this._assignScriptObjectId(obj));
+    args.forEach((arg, index) => {
+      // Global callbacks keep the paths describing their names
+      if (typeof arg === 'function' && methodPath !== undefined && !this._globalCallbacks.includes(arg)) {
+        this._assignScriptObjectPath(arg, `${methodPath}(${index})`);
+      }
+    });
     this._scriptObjectListStack.unshift(scriptObjectList);
 
     try {
-      const response = await this._jrpc.call(API_SERVER_METHOD_CALL_FUNCTION, [
+      const response = await this._request(API_SERVER_METHOD_CALL_FUNCTION, [
         serializedTarget,
         methodName,
         ...args.map((arg) => this._serialize(arg)),
-      ]);
+      ], options);
 
-      return await this._deserialize(response);
+      return await this._deserialize(response, methodPath === undefined ? undefined : `${methodPath}()`);
     } finally {
-      this._scriptObjectListStack.shift();
+      // Calls may complete in any order
+      this._scriptObjectListStack.splice(this._scriptObjectListStack.indexOf(scriptObjectList), 1);
     }
   }
 
   private async _handleAPICallback(functionId: number, args: SerializedValue[]): Promise<void> {
+    const now = Date.now();
+
+    this._callbackTimes.push(now);
+
+    while (this._callbackTimes[0] <= now - CALLBACK_RATE_PERIOD) {
+      this._callbackTimes.shift();
+    }
+
     const callbackFunction = this._findScriptObject(functionId);
 
     if (typeof callbackFunction !== 'function') {
-      throw new Error(`Function was not found - ID: ${functionId}`);
+      throw new CallbackNotFoundError(functionId);
     }
 
-    const functionArguments = await Promise.all(args.map((arg) => this._deserialize(arg)));
+    const invokeCallback = async () => {
+      const path = this._getScriptObjectPath(callbackFunction);
+      const functionArguments = await Promise.all(args.map((arg, index) => {
+        return this._deserialize(arg, path === undefined ? undefined : `${path}[${index}]`);
+      }));
 
-    await callbackFunction.apply(null, functionArguments);
+      await callbackFunction.apply(null, functionArguments);
+    };
+
+    // Other callbacks are invoked right away, as the methods they were passed to may be waiting for them
+    if (this._dispatchQueue === undefined || !this._globalCallbacks.includes(callbackFunction)) {
+      return invokeCallback();
+    }
+
+    // The arguments are deserialized in order as well, as describing new objects takes longer than reusing known ones
+    return this._dispatchQueue.run(this._getDispatchKey(functionId, args), invokeCallback);
   }
 
-  private async _describeScriptObject(serializedTarget: SerializedScriptObject): Promise<SerializableObject> {
+  private _getDispatchKey(functionId: number, args: SerializedValue[]): string | undefined {
+    const [target] = args;
+
+    switch (this._options.callbackDispatch?.order ?? 'none') {
+      case 'callback':
+        return `callback:${functionId}`;
+      case 'target':
+        return isSerializedScriptObject(target) && target.scriptObject !== API_VALUE_INVALID_SCRIPT_OBJECT
+          ? `object:${target.scriptObject}`
+          : `callback:${functionId}`;
+      case 'all':
+        return 'all';
+      default:
+        return undefined;
+    }
+  }
+
+  private _getScriptObject(serializedTarget: SerializedScriptObject, path: string | undefined): Promise<SerializableObject> {
+    const scriptObjectId = serializedTarget.scriptObject;
+    const collectableScriptObject = this._scriptObjectRefMap.get(scriptObjectId)?.deref();
+
+    if (collectableScriptObject !== undefined) {
+      this._assignScriptObjectPath(collectableScriptObject, path);
+
+      return Promise.resolve(collectableScriptObject);
+    }
+
+    const scriptObject = this._scriptObjectMap.get(scriptObjectId);
+
+    if (scriptObject !== undefined) {
+      // E.g. the active call, also obtained as an item of `Phone.calls`
+      return scriptObject.then((object) => {
+        this._assignScriptObjectPath(object, path);
+
+        return object;
+      });
+    }
+
+    const describedScriptObject = this._describeScriptObject(serializedTarget, path);
+
+    this._scriptObjectMap.set(scriptObjectId, describedScriptObject);
+
+    describedScriptObject.then((object) => {
+      // Once described, the object is only weakly referenced, so that it can get garbage collected
+      if (this._finalizationRegistry && this._scriptObjectMap.get(scriptObjectId) === describedScriptObject) {
+        this._scriptObjectMap.delete(scriptObjectId);
+        this._scriptObjectRefMap.set(scriptObjectId, new WeakRef(object));
+        this._finalizationRegistry.register(object, scriptObjectId, object);
+      }
+    }, () => {
+      if (this._scriptObjectMap.get(scriptObjectId) === describedScriptObject) {
+        this._scriptObjectMap.delete(scriptObjectId);
+      }
+    });
+
+    return describedScriptObject;
+  }
+
+  private _getScriptObjectDescription(serializedTarget: SerializedScriptObject, path: string | undefined): Promise<ScriptObjectDescription> {
+    const cacheDescription = this._options.cacheDescriptions && path !== undefined;
+
+    if (cacheDescription && this._descriptionCache.has(path!)) {
+      return this._descriptionCache.get(path!)!;
+    }
+
+    const description = Promise.all([
+      this._request(API_SERVER_METHOD_DESCRIBE_VARIABLES, [serializedTarget]),
+      this._request(API_SERVER_METHOD_DESCRIBE_FUNCTIONS, [serializedTarget]),
+    ]).then(([properties, methods]) => ({properties, methods}));
+
+    if (cacheDescription) {
+      this._descriptionCache.set(path!, description);
+
+      description.catch(() => {
+        if (this._descriptionCache.get(path!) === description) {
+          this._descriptionCache.delete(path!);
+        }
+      });
+    }
+
+    return description;
+  }
+
+  private async _describeScriptObject(serializedTarget: SerializedScriptObject, path: string | undefined): Promise<SerializableObject> {
     const scriptObject = {};
-    const properties = await this._jrpc.call(API_SERVER_METHOD_DESCRIBE_VARIABLES, [serializedTarget]);
-    const methods = await this._jrpc.call(API_SERVER_METHOD_DESCRIBE_FUNCTIONS, [serializedTarget]);
+    const {properties, methods} = await this._getScriptObjectDescription(serializedTarget, path);
 
     this._scriptObjectIdMap.set(scriptObject, serializedTarget.scriptObject);
+    this._serializedScriptObjectMap.set(scriptObject, serializedTarget);
+    this._assignScriptObjectPath(scriptObject, path);
+
+    // The path is looked up on each access, as it gets cleared once the object is obtained in another way
+    const getPath = () => this._getScriptObjectPath(scriptObject);
 
     for (const property of properties) {
       Object.defineProperty(scriptObject, property, {
         enumerable: true,
-        get: this._createGetter(serializedTarget, property),
-        set: this._createSetter(serializedTarget, property),
+        get: () => this._createGetter(serializedTarget, property, getPath())(),
+        set: (value: SerializableValue) => {
+          this._createSetter(serializedTarget, property, getPath())(value).catch((error) => {
+            // The write wasn't confirmed, which a plain assignment has no way to report
+            if (!(error instanceof AccessDeniedError)) {
+              throw error;
+            }
+          });
+        },
       });
     }
 
     for (const method of methods) {
       Object.defineProperty(scriptObject, method, {
         enumerable: true,
-        value: this._createMethod(serializedTarget, method),
+        value: this._createMethod(serializedTarget, method, getPath),
       });
     }
 
@@ -217,13 +1574,13 @@ export class RPCManager<T extends SerializableObject = any> {
     }
 
     if (scriptObjectId === undefined) {
-      throw new Error(`Unexpected value: ${value}`);
+      throw typeof value === 'object' || typeof value === 'function' ? new UnknownScriptObjectError(value) : new SerializationError(value);
     }
 
     return {type: API_VALUE_TYPE_SCRIPT_OBJECT, scriptObject: scriptObjectId};
   }
 
-  private async _deserialize(value: SerializedValue): Promise<SerializableValue> {
+  private async _deserialize(value: SerializedValue, path?: string): Promise<SerializableValue> {
     if (isPlainValueType(value)) {
       return value;
     }
@@ -234,10 +1591,10 @@ export class RPCManager<T extends SerializableObject = any> {
       }
 
       if (value.type === API_VALUE_TYPE_SCRIPT_OBJECT) {
-        return value.scriptObject === API_VALUE_INVALID_SCRIPT_OBJECT ? null : this._describeScriptObject(value);
+        return value.scriptObject === API_VALUE_INVALID_SCRIPT_OBJECT ? null : this._getScriptObject(value, path);
       }
     }
 
-    throw new Error(`Unexpected value: ${value}`);
+    throw new SerializationError(value);
   }
 }
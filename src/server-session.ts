@@ -0,0 +1,346 @@
+import simple_jsonrpc from 'simple-jsonrpc-js';
+import {
+  API_CLIENT_METHOD_CALLBACK,
+} from './const/rpc-client-methods';
+import {
+  API_SERVER_METHOD_AUTHENTICATE,
+  API_SERVER_METHOD_GET_ROOT_OBJECT,
+  API_SERVER_METHOD_DESCRIBE_VARIABLES,
+  API_SERVER_METHOD_DESCRIBE_FUNCTIONS,
+} from './const/rpc-server-methods';
+import {
+  API_VALUE_TYPE_EMPTY,
+  API_VALUE_TYPE_SCRIPT_OBJECT,
+  API_VALUE_INVALID_SCRIPT_OBJECT,
+} from './const/rpc-values';
+import {ObjectDescription} from './describe-object';
+import {SerializableValue} from './rpc-manager';
+import {LoopbackEndpoint} from './transports/loopback-transport';
+
+export const ERROR_CODE_ACCESS_DENIED = 1;
+export const ERROR_CODE_INVALID_PARAMS = -32602;
+export const ERROR_CODE_INTERNAL_ERROR = -32603;
+// Keeps server object IDs apart from the IDs the client assigns to its callbacks
+const FIRST_SCRIPT_OBJECT_ID = 1000000;
+
+/**
+ * Assigns the IDs of the objects a server hands out, and resolves them back to the objects.
+ */
+export class ScriptObjectRegistry {
+  private _maxSize: number;
+  private _lastScriptObjectId: number;
+  private _scriptObjectIdMap: WeakMap<object, number>;
+  private _scriptObjectMap: Map<number, object>;
+  private _retainedScriptObjectIds: Set<number>;
+
+  /**
+   * @param maxSize How many objects to keep. Once exceeded, the least recently used objects are forgotten,
+   * and requests referring to them fail.
+   */
+  constructor(maxSize: number = Infinity) {
+    this._maxSize = maxSize;
+    this._lastScriptObjectId = FIRST_SCRIPT_OBJECT_ID;
+    this._scriptObjectIdMap = new WeakMap();
+    this._scriptObjectMap = new Map();
+    this._retainedScriptObjectIds = new Set();
+  }
+
+  /**
+   * How many objects to keep.
+   */
+  get maxSize(): number {
+    return this._maxSize;
+  }
+
+  /**
+   * The number of objects kept.
+   */
+  get size(): number {
+    return this._scriptObjectMap.size;
+  }
+
+  /**
+   * Gets the ID of an object, assigning a new one if needed.
+   * @param object The object.
+   * @param retain Never forgets the object, e.g. the root object.
+   */
+  getId(object: object, retain: boolean = false): number {
+    let scriptObjectId = this._scriptObjectIdMap.get(object);
+
+    if (scriptObjectId === undefined) {
+      this._lastScriptObjectId += 1;
+      scriptObjectId = this._lastScriptObjectId;
+      this._scriptObjectIdMap.set(object, scriptObjectId);
+      this._evict();
+    }
+
+    if (retain) {
+      this._retainedScriptObjectIds.add(scriptObjectId);
+    }
+
+    this._touch(scriptObjectId, object);
+
+    return scriptObjectId;
+  }
+
+  /**
+   * Gets the object with the provided ID, `undefined` if there is none.
+   */
+  get(scriptObjectId: number): object | undefined {
+    const object = this._scriptObjectMap.get(scriptObjectId);
+
+    if (object !== undefined) {
+      this._touch(scriptObjectId, object);
+    }
+
+    return object;
+  }
+
+  private _touch(scriptObjectId: number, object: object): void {
+    // Keeps the map ordered from the least to the most recently used object
+    this._scriptObjectMap.delete(scriptObjectId);
+    this._scriptObjectMap.set(scriptObjectId, object);
+  }
+
+  private _evict(): void {
+    for (const [scriptObjectId, object] of this._scriptObjectMap) {
+      if (this._scriptObjectMap.size < this._maxSize) {
+        break;
+      }
+
+      if (!this._retainedScriptObjectIds.has(scriptObjectId)) {
+        this._scriptObjectMap.delete(scriptObjectId);
+        this._scriptObjectIdMap.delete(object);
+      }
+    }
+  }
+}
+
+export interface ServerSessionOptions {
+  /**
+   * The object returned by `getRootObject`.
+   */
+  root: object;
+  /**
+   * The accepted API tokens. All tokens are accepted if omitted.
+   */
+  tokens?: string[];
+  /**
+   * Assigns the object IDs, shared by the sessions of a server that keeps the IDs across connections.
+   */
+  registry: ScriptObjectRegistry;
+  /**
+   * Lists the members of the objects served.
+   */
+  describe(object: object): ObjectDescription;
+  /**
+   * Closes the connection when a message isn't valid JSON, instead of only answering with a parse error.
+   */
+  closeOnInvalidMessage?: boolean;
+}
+
+/**
+ * The server side of a Zoiper5 RPC API connection. Handles authentication, describing objects,
+ * and serializing values, leaving reading, writing and calling members to the server.
+ */
+export class ServerSession {
+  private _endpoint: LoopbackEndpoint;
+  private _options: ServerSessionOptions;
+  private _jrpc: simple_jsonrpc;
+  private _callbackMap: Map<number, Function>;
+  private _callbackIdMap: WeakMap<Function, number>;
+  private _isAuthenticated: boolean;
+  private _isClosed: boolean;
+
+  constructor(endpoint: LoopbackEndpoint, options: ServerSessionOptions) {
+    this._endpoint = endpoint;
+    this._options = options;
+    this._jrpc = new simple_jsonrpc();
+    this._callbackMap = new Map();
+    this._callbackIdMap = new WeakMap();
+    this._isAuthenticated = false;
+    this._isClosed = false;
+
+    this._jrpc.toStream = (message) => {
+      if (!this._isClosed) {
+        endpoint.send(message);
+      }
+    };
+
+    this.on(API_SERVER_METHOD_AUTHENTICATE, (token: string) => {
+      if (options.tokens && !options.tokens.includes(token)) {
+        this.fail(ERROR_CODE_ACCESS_DENIED, 'Access denied.');
+      }
+
+      this._isAuthenticated = true;
+
+      return true;
+    });
+
+    this.on(API_SERVER_METHOD_GET_ROOT_OBJECT, () => {
+      if (!this._isAuthenticated) {
+        this.fail(ERROR_CODE_ACCESS_DENIED, 'Not authenticated.');
+      }
+
+      return {type: API_VALUE_TYPE_SCRIPT_OBJECT, scriptObject: options.registry.getId(options.root, true)};
+    });
+
+    this.on(API_SERVER_METHOD_DESCRIBE_VARIABLES, (serializedTarget: unknown) => {
+      return options.describe(this.resolveTarget(serializedTarget)).properties;
+    });
+
+    this.on(API_SERVER_METHOD_DESCRIBE_FUNCTIONS, (serializedTarget: unknown) => {
+      return options.describe(this.resolveTarget(serializedTarget)).methods;
+    });
+
+    endpoint.onMessage = (message) => {
+      this._jrpc.messageHandler(message).catch(() => {
+        // The message isn't valid JSON, which simple-jsonrpc-js has already answered with a parse error
+        if (options.closeOnInvalidMessage) {
+          endpoint.close();
+        }
+      });
+    };
+    endpoint.onClose = () => {
+      this._isClosed = true;
+      this.onClose?.();
+    };
+  }
+
+  /**
+   * Gets called once the connection is closed.
+   */
+  onClose?(): void;
+
+  get isClosed(): boolean {
+    return this._isClosed;
+  }
+
+  /**
+   * The number of client callbacks known, bound by the size of the {@link ServerSessionOptions.registry}.
+   */
+  get callbackCount(): number {
+    return this._callbackMap.size;
+  }
+
+  /**
+   * Handles requests of a server method.
+   * @param method The method name, e.g. `getValue`.
+   * @param handler Gets called with the request params, returns the result.
+   */
+  on(method: string, handler: Function): void {
+    this._jrpc.on(method, handler);
+  }
+
+  /**
+   * Closes the connection.
+   */
+  close(): void {
+    this._endpoint.close();
+  }
+
+  /**
+   * Fails the request being handled with a JSON-RPC error.
+   */
+  fail(code: number, message: string, data?: unknown): never {
+    throw this._jrpc.customException(code, message, data);
+  }
+
+  /**
+   * Converts a value to its representation in the protocol. Objects get an ID.
+   */
+  serialize(value: unknown): unknown {
+    if (['boolean', 'number', 'string'].includes(typeof value)) {
+      return value;
+    }
+
+    if (value === undefined) {
+      return {type: API_VALUE_TYPE_EMPTY};
+    }
+
+    if (value === null) {
+      return {type: API_VALUE_TYPE_SCRIPT_OBJECT, scriptObject: API_VALUE_INVALID_SCRIPT_OBJECT};
+    }
+
+    if (typeof value === 'function' && this._callbackIdMap.has(value)) {
+      return {type: API_VALUE_TYPE_SCRIPT_OBJECT, scriptObject: this._callbackIdMap.get(value)};
+    }
+
+    return {type: API_VALUE_TYPE_SCRIPT_OBJECT, scriptObject: this._options.registry.getId(value as object)};
+  }
+
+  /**
+   * Converts a value received from the client. Unknown object IDs are treated as client callbacks.
+   */
+  deserialize(value: unknown): SerializableValue {
+    if (typeof value !== 'object' || value === null) {
+      return value as boolean | number | string | null;
+    }
+
+    const {type, scriptObject: scriptObjectId} = value as {type: string, scriptObject: number};
+
+    if (type === API_VALUE_TYPE_EMPTY) {
+      return undefined;
+    }
+
+    if (type !== API_VALUE_TYPE_SCRIPT_OBJECT) {
+      return this.fail(ERROR_CODE_INVALID_PARAMS, `Unexpected value: ${JSON.stringify(value)}`);
+    }
+
+    if (scriptObjectId === API_VALUE_INVALID_SCRIPT_OBJECT) {
+      return null;
+    }
+
+    const scriptObject = this._options.registry.get(scriptObjectId);
+
+    if (scriptObject !== undefined) {
+      return scriptObject;
+    }
+
+    if (scriptObjectId > FIRST_SCRIPT_OBJECT_ID) {
+      return this.fail(ERROR_CODE_INVALID_PARAMS, `Unknown script object: ${JSON.stringify(value)}`);
+    }
+
+    // Anything else is a client callback
+    let callback = this._callbackMap.get(scriptObjectId);
+
+    if (callback === undefined) {
+      callback = (...args: unknown[]) => {
+        if (this._isClosed) {
+          return Promise.reject(new Error('Connection is closed'));
+        }
+
+        return this._jrpc.call(API_CLIENT_METHOD_CALLBACK, [value, ...args.map((arg) => this.serialize(arg))]);
+      };
+
+      this._callbackIdMap.set(callback, scriptObjectId);
+    }
+
+    // Keeps the map ordered from the least to the most recently used callback, forgetting the ones beyond the limit
+    this._callbackMap.delete(scriptObjectId);
+    this._callbackMap.set(scriptObjectId, callback);
+
+    if (this._callbackMap.size > this._options.registry.maxSize) {
+      this._callbackMap.delete(this._callbackMap.keys().next().value!);
+    }
+
+    return callback;
+  }
+
+  /**
+   * Resolves the object a request is made on, once the client is authenticated.
+   */
+  resolveTarget(serializedTarget: unknown): object {
+    if (!this._isAuthenticated) {
+      this.fail(ERROR_CODE_ACCESS_DENIED, 'Not authenticated.');
+    }
+
+    const target = this.deserialize(serializedTarget);
+
+    if (typeof target !== 'object' || target === null) {
+      this.fail(ERROR_CODE_INVALID_PARAMS, `Unknown script object: ${JSON.stringify(serializedTarget)}`);
+    }
+
+    return target as object;
+  }
+}
@@ -0,0 +1,173 @@
+import {EventMap, RPCManager} from './rpc-manager';
+
+/**
+ * Describes a value kept in the snapshot of a {@link StateStore}.
+ */
+export interface WatchedValue<T, V> {
+  /**
+   * Reads the value, e.g. `(zoiperAPI) => zoiperAPI.activeCall`.
+   */
+  read(root: T): Promise<V> | V;
+  /**
+   * The global callbacks after which the value gets read again, e.g. `['call']`.
+   */
+  refreshOn?: string[];
+  /**
+   * Limits the refreshes to specific callback invocations, e.g. `(name, [event]) => event === 'options_save'`.
+   */
+  shouldRefresh?(name: string, args: unknown[]): boolean;
+}
+
+export type WatchedValues<T> = Record<string, WatchedValue<T, any>>;
+
+/**
+ * The values of a {@link StateStore}, `undefined` until read.
+ */
+export type StateSnapshot<W extends WatchedValues<any>> = {
+  readonly [K in keyof W]: Awaited<ReturnType<W[K]['read']>> | undefined;
+};
+
+/**
+ * Keeps a local snapshot of values read from the API, refreshed whenever related global callbacks are invoked.
+ * The snapshot gets replaced, never mutated, on every change, so it can back React's `useSyncExternalStore()`
+ * or a Vue `shallowRef`.
+ *
+ * ```js
+ * const store = new StateStore(rpcManager, zoiperAPI, {
+ *   activeCall: {read: (api) => api.activeCall, refreshOn: ['call']},
+ *   recordCalls: {
+ *     read: async (api) => (await api.optionsGeneral).recordCalls,
+ *     refreshOn: ['phone'],
+ *     shouldRefresh: (name, [event]) => event === 'options_save',
+ *   },
+ * });
+ *
+ * store.subscribe(() => render(store.getSnapshot()));
+ * await store.start();
+ * ```
+ */
+export class StateStore<T extends object, W extends WatchedValues<T>> {
+  private _rpcManager: RPCManager<T, EventMap>;
+  private _root: T;
+  private _watchedValues: W;
+  private _snapshot: StateSnapshot<W>;
+  private _subscribers: Set<() => void>;
+  private _readVersions: Map<keyof W, number>;
+  private _callbackListeners: Map<string, (...args: unknown[]) => void>;
+
+  /**
+   * Called when reading a value fails. The snapshot keeps the previous value.
+   * Without it, failed reads reject {@link start()} and {@link refresh()}, and are ignored when refreshing after callbacks.
+   * @param error The error thrown while reading.
+   * @param key The key of the value.
+   */
+  onError?(error: unknown, key: keyof W & string): void;
+
+  constructor(rpcManager: RPCManager<T, any>, root: T, watchedValues: W) {
+    this._rpcManager = rpcManager;
+    this._root = root;
+    this._watchedValues = watchedValues;
+    this._snapshot = Object.freeze(Object.fromEntries(Object.keys(watchedValues).map((key) => [key, undefined]))) as StateSnapshot<W>;
+    this._subscribers = new Set();
+    this._readVersions = new Map();
+    this._callbackListeners = new Map();
+  }
+
+  /**
+   * Starts listening to the global callbacks and reads all values.
+   */
+  async start(): Promise<void> {
+    const names = new Set(Object.values(this._watchedValues).flatMap(({refreshOn = []}) => refreshOn));
+
+    for (const name of names) {
+      if (!this._callbackListeners.has(name)) {
+        const listener = (...args: unknown[]) => this._handleCallback(name, args);
+
+        this._callbackListeners.set(name, listener);
+        this._rpcManager.on(name, listener);
+      }
+    }
+
+    await this.refresh();
+  }
+
+  /**
+   * Stops listening to the global callbacks. The snapshot keeps its values.
+   */
+  stop(): void {
+    for (const [name, listener] of this._callbackListeners) {
+      this._rpcManager.off(name, listener);
+    }
+
+    this._callbackListeners.clear();
+  }
+
+  /**
+   * Reads values again, all of them if no keys are given.
+   */
+  async refresh(...keys: (keyof W & string)[]): Promise<void> {
+    await Promise.all((keys.length > 0 ? keys : Object.keys(this._watchedValues)).map((key) => this._read(key)));
+  }
+
+  getSnapshot(): StateSnapshot<W> {
+    return this._snapshot;
+  }
+
+  /**
+   * Adds a function called after every change of the snapshot.
+   * @returns A function removing the subscriber.
+   */
+  subscribe(subscriber: () => void): () => void {
+    this._subscribers.add(subscriber);
+
+    return () => {
+      this._subscribers.delete(subscriber);
+    };
+  }
+
+  private _handleCallback(name: string, args: unknown[]): void {
+    const keys = Object.keys(this._watchedValues).filter((key) => {
+      const {refreshOn = [], shouldRefresh} = this._watchedValues[key];
+
+      return refreshOn.includes(name) && (shouldRefresh === undefined || shouldRefresh(name, args));
+    });
+
+    if (keys.length === 0) {
+      return;
+    }
+
+    // The callback is answered right away, reading values while it's in progress could delay other callbacks
+    this.refresh(...keys).catch(() => undefined);
+  }
+
+  private async _read(key: keyof W & string): Promise<void> {
+    const version = (this._readVersions.get(key) ?? 0) + 1;
+
+    this._readVersions.set(key, version);
+
+    let value: unknown;
+
+    try {
+      value = await this._watchedValues[key].read(this._root);
+    } catch (ex) {
+      if (this.onError === undefined) {
+        throw ex;
+      }
+
+      this.onError(ex, key);
+
+      return;
+    }
+
+    // A later read was started in the meantime, e.g. due to another callback
+    if (this._readVersions.get(key) !== version || Object.is(this._snapshot[key], value)) {
+      return;
+    }
+
+    this._snapshot = Object.freeze({...this._snapshot, [key]: value});
+
+    for (const subscriber of [...this._subscribers]) {
+      subscriber();
+    }
+  }
+}
@@ -0,0 +1,386 @@
+type MockCallback = (...args: unknown[]) => unknown;
+
+/**
+ * Constants exposed by {@link MockPhone} as `Phone.constants`. The values are arbitrary,
+ * code relying on them should always read them from the server.
+ */
+export const MOCK_CONSTANTS = Object.freeze({
+  EAPI_ERROR_OK: 0,
+  EAPI_ERROR_FAIL: 1,
+  EAPI_ERROR_INVALID_ARGUMENT: 2,
+  EORIGIN_UNKNOWN: 0,
+  EORIGIN_LOCAL: 1,
+  EORIGIN_REMOTE: 2,
+  EORIGIN_FAILURE: 3,
+  ECONTACTS_SORT_NAME: 0,
+  ECONTACTS_SORT_NUMBER: 1,
+  ECONTACT_TYPE_UNKNOWN: 0,
+  EHISTORY_TYPE_CALL: 1,
+  EHISTORY_TYPE_MESSAGE: 2,
+  EHISTORY_GROUP_MODE_EVENT: 0,
+  EHISTORY_GROUP_MODE_PEER: 1,
+});
+
+export interface MockContact {
+  name: string;
+  phones: string[];
+}
+
+export interface MockHistoryRecord {
+  datetime: string;
+  peerNumber: string;
+  origin: number;
+  established: boolean;
+  terminationOrigin: number;
+  terminationError?: {text: string, layerCode: number};
+}
+
+export interface MockPhoneOptions {
+  versionPhone?: string;
+  accounts?: string[];
+  contacts?: MockContact[];
+  history?: MockHistoryRecord[];
+}
+
+export interface MockCall {
+  phone: string;
+  isIncoming: boolean;
+  isRinging: boolean;
+  isOnHold: boolean;
+  isRecording: boolean;
+  durationText: string;
+  recordingFilename: string;
+  contact: object | null;
+  accept(video: boolean): number;
+  hangup(): number;
+  hold(onHold: boolean): number;
+  transfer(number: string): number;
+  record(enable: boolean): number;
+}
+
+export interface MockList<T> {
+  readonly count: number;
+  itemAt(index: number, callback: MockCallback): Promise<number>;
+}
+
+const {EAPI_ERROR_OK, EAPI_ERROR_FAIL, EAPI_ERROR_INVALID_ARGUMENT} = MOCK_CONSTANTS;
+
+/**
+ * Creates a model of a Zoiper5 API list - an object with `count` and `itemAt(index, callback)`.
+ * @param getItems Returns the current list items.
+ * @param members Additional members of the list, accessors are preserved.
+ */
+export function createMockList<T>(getItems: () => T[], members: object = {}): MockList<T> {
+  const list = {
+    get count() {
+      return getItems().length;
+    },
+    async itemAt(index: number, callback: MockCallback) {
+      const item = getItems()[index];
+      const result = item === undefined ? EAPI_ERROR_INVALID_ARGUMENT : EAPI_ERROR_OK;
+
+      await callback(result, item ?? null);
+
+      return result;
+    },
+  };
+
+  return Object.defineProperties(list, Object.getOwnPropertyDescriptors(members));
+}
+
+/**
+ * A fake Zoiper5 phone - the object model of a {@link MockServer}, along with helpers simulating remote activity.
+ * Covers a small part of the Zoiper5 API - calls, contacts, accounts, call history, general options and global callbacks.
+ *
+ * ```js
+ * const phone = new MockPhone({contacts: [{name: 'John', phones: ['1001']}]});
+ * const server = new MockServer({root: phone.root});
+ * ```
+ */
+export class MockPhone {
+  /**
+   * The model of the `Phone` instance.
+   */
+  readonly root: object;
+  /**
+   * The current calls.
+   */
+  readonly calls: MockCall[];
+  activeCall: MockCall | null;
+  private _options: MockPhoneOptions;
+  private _callbacks: Map<string, Set<MockCallback>>;
+  private _contactFilter: string;
+  private _lastHistoryFilterId: number;
+
+  constructor(options: MockPhoneOptions = {}) {
+    this._options = options;
+    this._callbacks = new Map();
+    this._contactFilter = '';
+    this._lastHistoryFilterId = 0;
+    this.calls = [];
+    this.activeCall = null;
+
+    const phone = this;
+    const accounts = (options.accounts ?? ['Mock account']).map((name) => ({name}));
+    const contactService = {name: 'Mock contacts'};
+    const contacts = (options.contacts ?? []).map((contact) => {
+      const phones = contact.phones.map((number) => ({number}));
+
+      return {name: contact.name, hidden: false, phones: createMockList(() => phones)};
+    });
+    let filteredContacts = contacts;
+
+    this.root = {
+      versionPhone: options.versionPhone ?? '5.0.0-mock',
+      constants: {...MOCK_CONSTANTS},
+      get activeCall() {
+        return phone.activeCall;
+      },
+      calls: createMockList(() => this.calls),
+      accounts: createMockList(() => accounts, {
+        get defaultAccount() {
+          return accounts[0] ?? null;
+        },
+      }),
+      contacts: createMockList(() => filteredContacts, {
+        filter: (text: string) => {
+          if (text === this._contactFilter) {
+            return EAPI_ERROR_FAIL;
+          }
+
+          const query = text.toLowerCase();
+
+          this._contactFilter = text;
+          filteredContacts = contacts.filter((contact, index) => {
+            return contact.name.toLowerCase().includes(query)
+              || options.contacts![index].phones.some((number) => number.includes(query));
+          });
+          this._emitLater('contact-service', contactService, 'search_completed');
+
+          return EAPI_ERROR_OK;
+        },
+      }),
+      optionsGeneral: {
+        recordCalls: false,
+        apply: () => EAPI_ERROR_OK,
+      },
+      historyService: this._createHistoryService(),
+      registerCallback: (name: string, callback: MockCallback) => {
+        if (!this._callbacks.has(name)) {
+          this._callbacks.set(name, new Set());
+        }
+
+        this._callbacks.get(name)!.add(callback);
+
+        return EAPI_ERROR_OK;
+      },
+      saveOptions: () => {
+        this._emitLater('phone', 'options_save', '', 0, false, 0, 0);
+
+        return EAPI_ERROR_OK;
+      },
+      createCall: async (number: string, video: boolean, account: string, callback?: MockCallback) => {
+        const call = this._addCall(number, false);
+
+        this.activeCall = call;
+        this._emitLater('call', call, 'outgoing', 0);
+        await callback?.(EAPI_ERROR_OK, call);
+
+        return EAPI_ERROR_OK;
+      },
+    };
+  }
+
+  /**
+   * Invokes the global callbacks registered under the provided name, in the order of their registration.
+   * Errors thrown by the callbacks are ignored.
+   * @param name The callback name, e.g. `call`.
+   * @param args The callback arguments.
+   */
+  async emit(name: string, ...args: unknown[]): Promise<void> {
+    for (const callback of this._callbacks.get(name) ?? []) {
+      try {
+        await callback(...args);
+      } catch (ex) {
+        // The client's callback failed, or the client is gone
+      }
+    }
+  }
+
+  /**
+   * Simulates an incoming call that is ringing.
+   * @param number The caller's number.
+   */
+  simulateIncomingCall(number: string): MockCall {
+    const call = this._addCall(number, true);
+
+    this._emitLater('call', call, 'incoming', 0);
+
+    return call;
+  }
+
+  /**
+   * Simulates the remote party answering an outgoing call.
+   */
+  simulateRemoteAnswer(call: MockCall): void {
+    call.isRinging = false;
+    this.activeCall = call;
+    this._emitLater('call', call, 'accepted', 0);
+  }
+
+  /**
+   * Simulates the remote party ending a call.
+   */
+  simulateRemoteHangup(call: MockCall): void {
+    this._removeCall(call);
+  }
+
+  private _emitLater(name: string, ...args: unknown[]): void {
+    // Global callbacks arrive after the response to the request that caused them
+    setTimeout(() => this.emit(name, ...args), 0);
+  }
+
+  private _addCall(number: string, isIncoming: boolean): MockCall {
+    const phone = this;
+    const call: MockCall = {
+      phone: number,
+      isIncoming,
+      isRinging: true,
+      isOnHold: false,
+      isRecording: false,
+      durationText: '00:00:00',
+      recordingFilename: '',
+      contact: null,
+      accept() {
+        if (!call.isIncoming || !call.isRinging) {
+          return EAPI_ERROR_FAIL;
+        }
+
+        call.isRinging = false;
+        phone.activeCall = call;
+        phone._emitLater('call', call, 'accepted', 0);
+        phone._emitLater('call', call, 'active_call', 0);
+
+        return EAPI_ERROR_OK;
+      },
+      hangup() {
+        return phone._removeCall(call);
+      },
+      hold(onHold: boolean) {
+        if (call.isRinging || call.isOnHold === onHold) {
+          return EAPI_ERROR_FAIL;
+        }
+
+        call.isOnHold = onHold;
+        phone._emitLater('call', call, onHold ? 'hold' : 'unhold', 0);
+
+        return EAPI_ERROR_OK;
+      },
+      transfer(number: string) {
+        if (call.isRinging || !number) {
+          return EAPI_ERROR_FAIL;
+        }
+
+        phone._emitLater('call', call, 'transferred', 0);
+
+        return phone._removeCall(call);
+      },
+      record(enable: boolean) {
+        if (call.isRinging || call.isRecording === enable) {
+          return EAPI_ERROR_FAIL;
+        }
+
+        call.isRecording = enable;
+        call.recordingFilename = enable ? `recording-${call.phone}.wav` : call.recordingFilename;
+        phone._emitLater('call', call, enable ? 'recording_started' : 'recording_stopped', 0);
+
+        return EAPI_ERROR_OK;
+      },
+    };
+
+    this.calls.push(call);
+
+    return call;
+  }
+
+  private _removeCall(call: MockCall): number {
+    const index = this.calls.indexOf(call);
+
+    if (index === -1) {
+      return EAPI_ERROR_FAIL;
+    }
+
+    this.calls.splice(index, 1);
+
+    if (this.activeCall === call) {
+      this.activeCall = null;
+    }
+
+    this._emitLater('call', call, 'hangup', 0);
+
+    return EAPI_ERROR_OK;
+  }
+
+  private _createHistoryService(): object {
+    const historyFilters = new Set<object>();
+
+    return {
+      addFilter: async (callback: MockCallback) => {
+        const historyFilter = this._createHistoryFilter();
+
+        historyFilters.add(historyFilter);
+        await callback(EAPI_ERROR_OK, historyFilter);
+
+        return EAPI_ERROR_OK;
+      },
+      removeFilter: (historyFilter: object) => {
+        return historyFilters.delete(historyFilter) ? EAPI_ERROR_OK : EAPI_ERROR_FAIL;
+      },
+    };
+  }
+
+  private _createHistoryFilter(): object {
+    const types = new Set<number>();
+    let histories: object[] = [];
+
+    this._lastHistoryFilterId += 1;
+
+    const historyFilter = {
+      ident: `history-filter-${this._lastHistoryFilterId}`,
+      histories: createMockList(() => histories),
+      addType: (type: number) => {
+        types.add(type);
+
+        return EAPI_ERROR_OK;
+      },
+      apply: (groupMode: number, limit: number) => {
+        setTimeout(async () => {
+          await this.emit('history-filter', historyFilter, null, 'search_started');
+
+          const records = types.has(MOCK_CONSTANTS.EHISTORY_TYPE_CALL) ? this._options.history ?? [] : [];
+
+          histories = records.slice(0, limit > 0 ? limit : undefined).map((record) => ({
+            datetime: record.datetime,
+            callSummary: {
+              peerNumber: record.peerNumber,
+              origin: record.origin,
+              established: record.established,
+              terminationOrigin: record.terminationOrigin,
+              terminationError: {
+                isError: record.terminationError !== undefined,
+                text: record.terminationError?.text ?? '',
+                layerCode: record.terminationError?.layerCode ?? 0,
+              },
+            },
+          }));
+
+          await this.emit('history-filter', historyFilter, null, 'search_completed');
+        }, 0);
+
+        return EAPI_ERROR_OK;
+      },
+    };
+
+    return historyFilter;
+  }
+}
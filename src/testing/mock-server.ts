@@ -0,0 +1,138 @@
+import {
+  API_SERVER_METHOD_GET_VALUE,
+  API_SERVER_METHOD_SET_VALUE,
+  API_SERVER_METHOD_CALL_FUNCTION,
+} from '../const/rpc-server-methods';
+import {ObjectDescription} from '../describe-object';
+import {ERROR_CODE_INVALID_PARAMS, ScriptObjectRegistry, ServerSession} from '../server-session';
+import {LoopbackEndpoint, LoopbackTransport} from '../transports/loopback-transport';
+
+export interface MockServerOptions {
+  /**
+   * The object returned by `getRootObject`. Function members of model objects are exposed as methods,
+   * all other members - including accessors - as properties. Members whose name starts with `_` are hidden.
+   */
+  root: object;
+  /**
+   * The accepted API tokens. All tokens are accepted if omitted.
+   */
+  tokens?: string[];
+}
+
+function describeMockObject(object: object): ObjectDescription {
+  const properties: string[] = [];
+  const methods: string[] = [];
+  const names = new Set<string>();
+
+  for (let prototype = object; prototype && prototype !== Object.prototype; prototype = Object.getPrototypeOf(prototype)) {
+    for (const name of Object.getOwnPropertyNames(prototype)) {
+      if (names.has(name) || name === 'constructor' || name.startsWith('_')) {
+        continue;
+      }
+
+      const descriptor = Object.getOwnPropertyDescriptor(prototype, name)!;
+
+      names.add(name);
+
+      if (!descriptor.get && !descriptor.set && typeof descriptor.value === 'function') {
+        methods.push(name);
+      } else {
+        properties.push(name);
+      }
+    }
+  }
+
+  return {properties, methods};
+}
+
+/**
+ * An in-process Zoiper5 RPC API server backed by a declarative object model, for testing purposes.
+ *
+ * ```js
+ * const server = new MockServer({root: new MockPhone().root});
+ * const connectionManager = new ConnectionManager(rpcManager, {transport: server.createTransport()});
+ * ```
+ */
+export class MockServer {
+  private _options: MockServerOptions;
+  private _registry: ScriptObjectRegistry;
+  private _endpoints: Set<LoopbackEndpoint>;
+
+  constructor(options: MockServerOptions) {
+    this._options = options;
+    // Shared by all connections, so that a resumed session can keep using the objects it obtained
+    this._registry = new ScriptObjectRegistry();
+    this._endpoints = new Set();
+  }
+
+  /**
+   * The number of open connections.
+   */
+  get connectionCount(): number {
+    return this._endpoints.size;
+  }
+
+  /**
+   * Creates a transport connected to this server, to be used by a {@link ConnectionManager}.
+   */
+  createTransport(): LoopbackTransport {
+    return new LoopbackTransport((endpoint) => this.accept(endpoint));
+  }
+
+  /**
+   * Serves a connection. Allows exposing the server via any message channel, e.g. a WebSocket server.
+   * @param endpoint The server side of the connection.
+   */
+  accept(endpoint: LoopbackEndpoint): void {
+    const session = new ServerSession(endpoint, {
+      root: this._options.root,
+      tokens: this._options.tokens,
+      registry: this._registry,
+      describe: describeMockObject,
+    });
+
+    const ensureMember = (target: object, kind: keyof ObjectDescription, name: string) => {
+      if (!describeMockObject(target)[kind].includes(name)) {
+        session.fail(ERROR_CODE_INVALID_PARAMS, `Unknown ${kind === 'properties' ? 'property' : 'method'}: ${name}`);
+      }
+    };
+
+    session.on(API_SERVER_METHOD_GET_VALUE, (serializedTarget: unknown, propertyName: string) => {
+      const target: any = session.resolveTarget(serializedTarget);
+
+      ensureMember(target, 'properties', propertyName);
+
+      return session.serialize(target[propertyName]);
+    });
+
+    session.on(API_SERVER_METHOD_SET_VALUE, (serializedTarget: unknown, propertyName: string, value: unknown) => {
+      const target: any = session.resolveTarget(serializedTarget);
+
+      ensureMember(target, 'properties', propertyName);
+      target[propertyName] = session.deserialize(value);
+
+      return true;
+    });
+
+    session.on(API_SERVER_METHOD_CALL_FUNCTION, async (serializedTarget: unknown, methodName: string, ...args: unknown[]) => {
+      const target: any = session.resolveTarget(serializedTarget);
+
+      ensureMember(target, 'methods', methodName);
+
+      return session.serialize(await target[methodName](...args.map((arg) => session.deserialize(arg))));
+    });
+
+    session.onClose = () => {
+      this._endpoints.delete(endpoint);
+    };
+
+    this._endpoints.add(endpoint);
+  }
+
+  /**
+   * Closes all open connections.
+   */
+  closeConnections(): void {
+    this._endpoints.forEach((endpoint) => endpoint.close());
+  }
+}
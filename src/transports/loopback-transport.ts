@@ -0,0 +1,99 @@
+import type {Transport, TransportCloseEvent} from './transport';
+
+/**
+ * The server side of a {@link LoopbackTransport} connection.
+ */
+export interface LoopbackEndpoint {
+  send(message: string): void;
+  close(): void;
+  onMessage?(message: string): void;
+  onClose?(event: TransportCloseEvent): void;
+}
+
+interface LoopbackConnection {
+  send(message: string): void;
+  close(): void;
+}
+
+const CLEAN_CLOSE_EVENT: TransportCloseEvent = {code: 1000, reason: '', wasClean: true};
+
+/**
+ * Connects to an in-process server. Messages are delivered asynchronously, in order.
+ *
+ * ```js
+ * const transport = new LoopbackTransport((endpoint) => {
+ *   endpoint.onMessage = (message) => endpoint.send(handleMessage(message));
+ * });
+ * ```
+ */
+export class LoopbackTransport implements Transport {
+  private _listener: (endpoint: LoopbackEndpoint) => void;
+  private _connection?: LoopbackConnection;
+
+  /**
+   * @param listener Gets called with the server side of the connection each time the transport gets opened.
+   */
+  constructor(listener: (endpoint: LoopbackEndpoint) => void) {
+    this._listener = listener;
+  }
+
+  onMessage?(message: string): void;
+  onClose?(event: TransportCloseEvent): void;
+  onError?(error: Error): void;
+
+  async open(): Promise<void> {
+    let isClosed = false;
+
+    const deliver = (callback: () => void) => {
+      Promise.resolve().then(() => {
+        if (!isClosed) {
+          callback();
+        }
+      });
+    };
+    const createSender = (receive: (message: string) => void) => (message: string) => {
+      if (isClosed) {
+        throw new Error('Transport is not open');
+      }
+
+      deliver(() => receive(message));
+    };
+    const close = () => {
+      deliver(() => {
+        isClosed = true;
+        endpoint.onClose?.(CLEAN_CLOSE_EVENT);
+
+        if (connection === this._connection) {
+          this.onClose?.(CLEAN_CLOSE_EVENT);
+        }
+      });
+    };
+    const endpoint: LoopbackEndpoint = {
+      send: createSender((message) => {
+        if (connection === this._connection) {
+          this.onMessage?.(message);
+        }
+      }),
+      close,
+    };
+    const connection: LoopbackConnection = {
+      send: createSender((message) => endpoint.onMessage?.(message)),
+      close,
+    };
+
+    this._connection = connection;
+    this._listener(endpoint);
+  }
+
+  send(message: string): void {
+    if (!this._connection) {
+      throw new Error('Transport is not open');
+    }
+
+    this._connection.send(message);
+  }
+
+  close(): void {
+    this._connection?.close();
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  WebSocketConstructor,
+  WebSocketLike,
+  WebSocketTransport,
+  WebSocketTransportOptions,
+} from './websocket-transport';
+
+/**
+ * Decodes a message received via a `ws` socket, which may deliver messages as `Buffer`, `ArrayBuffer`
+ * or an array of `Buffer` fragments.
+ */
+export function decodeWsMessage(data: unknown): string {
+  if (typeof data === 'string') {
+    return data;
+  }
+
+  if (Array.isArray(data)) {
+    return data.map(decodeWsMessage).join('');
+  }
+
+  if (data instanceof ArrayBuffer) {
+    return new TextDecoder().decode(data);
+  }
+
+  return String(data);
+}
+
+/**
+ * Connects to the RPC server using an injected `ws`-compatible `WebSocket` class, e.g. in Node.js or Electron's main process.
+ *
+ * ```js
+ * const WebSocket = require('ws');
+ * const transport = new NodeWebSocketTransport('ws://127.0.0.1:25000/', WebSocket);
+ * ```
+ */
+export class NodeWebSocketTransport extends WebSocketTransport {
+  private _WebSocket: WebSocketConstructor;
+
+  constructor(url: string, WebSocket: WebSocketConstructor, options: WebSocketTransportOptions = {}) {
+    super(url, options);
+    this._WebSocket = WebSocket;
+  }
+
+  protected _createSocket(): WebSocketLike {
+    return new this._WebSocket(this._url, this._options.protocols ?? 'text');
+  }
+
+  protected _decodeMessage(data: unknown): string {
+    return decodeWsMessage(data);
+  }
+}
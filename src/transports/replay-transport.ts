@@ -0,0 +1,121 @@
+import {API_SERVER_METHOD_AUTHENTICATE} from '../const/rpc-server-methods';
+import {ReplayMismatchError} from '../errors';
+import type {JSONRPCMessage} from '../interceptors/interceptor';
+import type {Recording} from '../interceptors/recorder';
+import type {Transport, TransportCloseEvent} from './transport';
+
+export interface ReplayTransportOptions {
+  /**
+   * Delays the server messages as much as they were delayed in the recording. By default they are delivered right away.
+   */
+  realtime?: boolean;
+}
+
+const CLEAN_CLOSE_EVENT: TransportCloseEvent = {code: 1000, reason: '', wasClean: true};
+
+function normalizeMessage({jsonrpc, ...message}: JSONRPCMessage): object {
+  // Recorded tokens are usually redacted
+  return message.method === API_SERVER_METHOD_AUTHENTICATE ? {...message, params: undefined} : message;
+}
+
+/**
+ * Plays back a session recorded by a {@link Recorder}, acting as the server. Each message sent by the client
+ * must match the next one in the recording, after which the recorded server messages up to the following
+ * client message are delivered. Sending a message that doesn't match fails with a {@link ReplayMismatchError}.
+ *
+ * ```js
+ * const transport = new ReplayTransport(JSON.parse(fs.readFileSync('session.json', 'utf8')));
+ * const connectionManager = new ConnectionManager(rpcManager, {transport});
+ * ```
+ */
+export class ReplayTransport implements Transport {
+  private _recording: Recording;
+  private _options: ReplayTransportOptions;
+  private _position: number;
+  private _isOpen: boolean;
+  private _delivery: Promise<void>;
+
+  constructor(recording: Recording, options: ReplayTransportOptions = {}) {
+    this._recording = recording;
+    this._options = options;
+    this._position = 0;
+    this._isOpen = false;
+    this._delivery = Promise.resolve();
+  }
+
+  onMessage?(message: string): void;
+  onClose?(event: TransportCloseEvent): void;
+  onError?(error: Error): void;
+
+  /**
+   * Whether all recorded messages have been exchanged.
+   */
+  get isComplete(): boolean {
+    return this._position >= this._recording.messages.length;
+  }
+
+  /**
+   * Opens the connection, playing back the recording from the start.
+   */
+  async open(): Promise<void> {
+    this._position = 0;
+    this._isOpen = true;
+    this._deliverIncomingMessages();
+  }
+
+  send(message: string): void {
+    if (!this._isOpen) {
+      throw new Error('Transport is not open');
+    }
+
+    const parsedMessage = JSON.parse(message);
+
+    for (const actualMessage of Array.isArray(parsedMessage) ? parsedMessage : [parsedMessage]) {
+      const expectedMessage = this._recording.messages[this._position];
+
+      if (
+        expectedMessage?.direction !== 'outgoing'
+        || JSON.stringify(normalizeMessage(expectedMessage.message)) !== JSON.stringify(normalizeMessage(actualMessage))
+      ) {
+        const error = new ReplayMismatchError(expectedMessage?.message, actualMessage);
+
+        this.onError?.(error);
+        throw error;
+      }
+
+      this._position += 1;
+    }
+
+    this._deliverIncomingMessages();
+  }
+
+  close(): void {
+    if (!this._isOpen) {
+      return;
+    }
+
+    this._isOpen = false;
+    Promise.resolve().then(() => this.onClose?.(CLEAN_CLOSE_EVENT));
+  }
+
+  private _deliverIncomingMessages(): void {
+    const {messages} = this._recording;
+
+    while (messages[this._position]?.direction === 'incoming') {
+      const recordedMessage = messages[this._position];
+      const delay = this._options.realtime ? recordedMessage.time - (messages[this._position - 1]?.time ?? 0) : 0;
+
+      this._position += 1;
+      // Chained, so that the messages are delivered in order
+      this._delivery = this._delivery.then(() => new Promise((resolve) => {
+        setTimeout(() => {
+          if (this._isOpen) {
+            this.onMessage?.(JSON.stringify(recordedMessage.message));
+          }
+
+          resolve();
+        }, delay);
+      }));
+    }
+  }
+}
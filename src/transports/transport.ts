@@ -0,0 +1,41 @@
+export interface TransportCloseEvent {
+  code: number;
+  reason: string;
+  wasClean: boolean;
+}
+
+/**
+ * A bidirectional text message channel between the client and the RPC server.
+ */
+export interface Transport {
+  /**
+   * Opens the connection. Gets called again when reconnecting after the connection was closed.
+   */
+  open(): Promise<void>;
+
+  /**
+   * Sends a message to the server.
+   * @param message The message that gets sent to the server.
+   */
+  send(message: string): void;
+
+  /**
+   * Closes the connection.
+   */
+  close(): void;
+
+  /**
+   * Gets called when a message arrives from the server.
+   */
+  onMessage?(message: string): void;
+
+  /**
+   * Gets called when the connection gets closed, including when it fails to open.
+   */
+  onClose?(event: TransportCloseEvent): void;
+
+  /**
+   * Gets called when the underlying connection reports an error.
+   */
+  onError?(error: Error): void;
+}
@@ -0,0 +1,89 @@
+import type {Transport, TransportCloseEvent} from './transport';
+
+/**
+ * The subset of the `WebSocket` API that {@link WebSocketTransport} relies on.
+ */
+export interface WebSocketLike {
+  onopen: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onmessage: ((event: any) => void) | null;
+  send(message: string): void;
+  close(): void;
+}
+
+export type WebSocketConstructor = new (url: string, protocols?: string | string[]) => WebSocketLike;
+
+export interface WebSocketTransportOptions {
+  /**
+   * The WebSocket subprotocols. Defaults to `'text'`.
+   */
+  protocols?: string | string[];
+}
+
+/**
+ * Connects to the RPC server using the browser's `WebSocket`.
+ */
+export class WebSocketTransport implements Transport {
+  protected _url: string;
+  protected _options: WebSocketTransportOptions;
+  private _socket?: WebSocketLike;
+
+  constructor(url: string, options: WebSocketTransportOptions = {}) {
+    this._url = url;
+    this._options = options;
+  }
+
+  onMessage?(message: string): void;
+  onClose?(event: TransportCloseEvent): void;
+  onError?(error: Error): void;
+
+  open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = this._createSocket();
+
+      this._socket = socket;
+
+      socket.onmessage = (event) => {
+        if (socket === this._socket) {
+          this.onMessage?.(this._decodeMessage(event.data));
+        }
+      };
+      socket.onclose = (event) => {
+        reject(new Error('Could not connect to the server'));
+
+        if (socket === this._socket) {
+          this.onClose?.({code: event.code, reason: event.reason, wasClean: event.wasClean});
+        }
+      };
+      socket.onopen = () => resolve();
+      socket.onerror = () => {
+        reject(new Error('Could not connect to the server'));
+
+        if (socket === this._socket) {
+          this.onError?.(new Error('WebSocket error'));
+        }
+      };
+    });
+  }
+
+  send(message: string): void {
+    if (!this._socket) {
+      throw new Error('Transport is not open');
+    }
+
+    this._socket.send(message);
+  }
+
+  close(): void {
+    this._socket?.close();
+  }
+
+  protected _createSocket(): WebSocketLike {
+    return new WebSocket(this._url, this._options.protocols ?? 'text');
+  }
+
+  protected _decodeMessage(data: unknown): string {
+    return data as string;
+  }
+}
@@ -0,0 +1,72 @@
+import {IntrospectedType, IntrospectionDump} from './introspect';
+
+export interface GenerateDeclarationsOptions {
+  /**
+   * The name of the root object's interface. Defaults to `Phone`.
+   */
+  rootName?: string;
+}
+
+function toIdentifier(name: string): string {
+  return name.replace(/(^|[^A-Za-z0-9]+)([A-Za-z0-9])/g, (match, separator, char) => char.toUpperCase());
+}
+
+function toPropertyName(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Generates TypeScript declarations from an introspection dump, usable as the type parameter of {@link RPCManager}.
+ * Each described object gets an interface named after its path, e.g. `PhoneOptionsGeneral`.
+ * Method signatures can't be introspected, so methods accept and return `any`.
+ *
+ * ```js
+ * fs.writeFileSync('phone.d.ts', generateDeclarations(await introspect(zoiperAPI)));
+ * ```
+ */
+export function generateDeclarations(dump: IntrospectionDump, options: GenerateDeclarationsOptions = {}): string {
+  const {rootName = 'Phone'} = options;
+  const interfaceNameMap = new Map<string, string>();
+  const lines = ['// Generated from the Zoiper5 RPC API introspection'];
+
+  for (const path of Object.keys(dump.objects).sort()) {
+    const baseName = toIdentifier(path ? `${rootName}.${path}` : rootName);
+    let interfaceName = baseName;
+
+    // Different paths may map to the same name, e.g. `foo.bar` and `fooBar`
+    for (let suffix = 2; [...interfaceNameMap.values()].includes(interfaceName); suffix += 1) {
+      interfaceName = `${baseName}${suffix}`;
+    }
+
+    interfaceNameMap.set(path, interfaceName);
+  }
+
+  const formatType = (type: IntrospectedType): string => {
+    if (typeof type === 'string') {
+      return type;
+    }
+
+    // Objects that were not described, e.g. due to the depth limit
+    return interfaceNameMap.get(type.object) ?? 'any';
+  };
+
+  for (const [path, interfaceName] of interfaceNameMap) {
+    const {properties, methods} = dump.objects[path];
+
+    lines.push('', `export interface ${interfaceName} {`);
+
+    for (const [name, types] of Object.entries(properties)) {
+      const formattedTypes = types.length > 0 ? [...new Set(types.map(formatType))] : ['unknown'];
+
+      lines.push(`  ${toPropertyName(name)}: Promise<${formattedTypes.join(' | ')}>;`);
+    }
+
+    for (const name of methods) {
+      lines.push(`  ${toPropertyName(name)}(...args: any[]): Promise<any>;`);
+    }
+
+    lines.push('}');
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,120 @@
+import {joinPath} from '../member-path';
+
+/**
+ * The type of a property value observed during introspection. Objects are described separately,
+ * under the path they were first found at.
+ */
+export type IntrospectedType = 'boolean' | 'number' | 'string' | 'undefined' | 'null' | {object: string};
+
+export interface IntrospectedObject {
+  /**
+   * The observed value types of each property. Empty if the property could not be read.
+   */
+  properties: Record<string, IntrospectedType[]>;
+  methods: string[];
+}
+
+/**
+ * The JSON-serializable result of {@link introspect()}.
+ */
+export interface IntrospectionDump {
+  /**
+   * Object descriptions keyed by the path they were found at, e.g. `optionsGeneral`. The root object's path is `''`.
+   */
+  objects: Record<string, IntrospectedObject>;
+}
+
+export interface IntrospectOptions {
+  /**
+   * How many levels of nested objects to describe. Defaults to `4`.
+   */
+  maxDepth?: number;
+  /**
+   * The maximum number of objects to describe. Defaults to `500`.
+   */
+  maxObjects?: number;
+}
+
+/**
+ * Describes an object obtained from the server along with the objects reachable through its properties.
+ * Only reads properties - methods are never called, as they may have side effects.
+ *
+ * ```js
+ * const dump = await introspect(await rpcManager.initialize('api-token'));
+ * ```
+ * @param rootObject An object obtained from the server, usually the root object.
+ */
+export async function introspect(rootObject: object, options: IntrospectOptions = {}): Promise<IntrospectionDump> {
+  const {maxDepth = 4, maxObjects = 500} = options;
+  const objects: Record<string, IntrospectedObject> = {};
+  const objectPathMap = new Map<object, string>();
+  const queue: {object: object, path: string, depth: number}[] = [{object: rootObject, path: '', depth: 0}];
+
+  objectPathMap.set(rootObject, '');
+
+  // Breadth-first, so that objects get described under their shortest path
+  while (queue.length > 0 && Object.keys(objects).length < maxObjects) {
+    const {object, path, depth} = queue.shift()!;
+    const description: IntrospectedObject = {properties: {}, methods: []};
+
+    objects[path] = description;
+
+    for (const [name, descriptor] of Object.entries(Object.getOwnPropertyDescriptors(object))) {
+      if (!descriptor.get) {
+        description.methods.push(name);
+        continue;
+      }
+
+      let value: unknown;
+
+      try {
+        value = await (object as Record<string, unknown>)[name];
+      } catch (ex) {
+        description.properties[name] = [];
+        continue;
+      }
+
+      if (typeof value !== 'object' || value === null) {
+        description.properties[name] = [value === null ? 'null' : typeof value as IntrospectedType];
+        continue;
+      }
+
+      if (!objectPathMap.has(value) && depth < maxDepth) {
+        objectPathMap.set(value, joinPath(path, name));
+        queue.push({object: value, path: joinPath(path, name), depth: depth + 1});
+      }
+
+      description.properties[name] = [{object: objectPathMap.get(value) ?? joinPath(path, name)}];
+    }
+  }
+
+  return {objects};
+}
+
+/**
+ * Combines several dumps, e.g. ones taken while there was an active call and while there wasn't,
+ * so that properties get all the value types observed.
+ */
+export function mergeIntrospectionDumps(...dumps: IntrospectionDump[]): IntrospectionDump {
+  const objects: Record<string, IntrospectedObject> = {};
+
+  for (const dump of dumps) {
+    for (const [path, {properties, methods}] of Object.entries(dump.objects)) {
+      const description = objects[path] ??= {properties: {}, methods: []};
+
+      for (const [name, types] of Object.entries(properties)) {
+        const mergedTypes = description.properties[name] ??= [];
+
+        for (const type of types) {
+          if (!mergedTypes.some((mergedType) => JSON.stringify(mergedType) === JSON.stringify(type))) {
+            mergedTypes.push(type);
+          }
+        }
+      }
+
+      description.methods.push(...methods.filter((method) => !description.methods.includes(method)));
+    }
+  }
+
+  return {objects};
+}
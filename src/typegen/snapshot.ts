@@ -0,0 +1,93 @@
+import {joinPath} from '../member-path';
+import {introspect, IntrospectionDump, IntrospectOptions} from './introspect';
+
+/**
+ * An introspection of the API of a particular Zoiper5 version, see {@link createApiSnapshot()}.
+ */
+export interface ApiSnapshot extends IntrospectionDump {
+  /**
+   * The value of `Phone.versionPhone`.
+   */
+  versionPhone: string;
+}
+
+export type ApiMemberKind = 'property' | 'method';
+
+export interface ApiMember {
+  /**
+   * The path of the member, e.g. `optionsGeneral.recordCalls`.
+   */
+  path: string;
+  kind: ApiMemberKind;
+}
+
+/**
+ * The result of {@link diffApiSnapshots()}.
+ */
+export interface ApiSnapshotDiff {
+  fromVersion?: string;
+  toVersion?: string;
+  added: ApiMember[];
+  removed: ApiMember[];
+}
+
+/**
+ * Introspects the API and records the Zoiper5 version it belongs to.
+ * @param rootObject The root object.
+ */
+export async function createApiSnapshot(rootObject: object, options?: IntrospectOptions): Promise<ApiSnapshot> {
+  const dump = await introspect(rootObject, options);
+  const versionPhone = 'versionPhone' in rootObject ? String(await (rootObject as {versionPhone: Promise<string>}).versionPhone) : 'unknown';
+
+  return {versionPhone, ...dump};
+}
+
+/**
+ * Lists the members described by an introspection, e.g. to pass them as {@link RPCManagerOptions.expectedMembers}.
+ */
+export function listApiMembers(dump: IntrospectionDump): ApiMember[] {
+  const members: ApiMember[] = [];
+
+  for (const [path, {properties, methods}] of Object.entries(dump.objects)) {
+    members.push(...Object.keys(properties).map((name): ApiMember => ({path: joinPath(path, name), kind: 'property'})));
+    members.push(...methods.map((name): ApiMember => ({path: joinPath(path, name), kind: 'method'})));
+  }
+
+  return members.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Compares the members described by two introspections, e.g. snapshots taken before and after upgrading Zoiper5.
+ * Objects described in only one of them, e.g. `activeCall` while there was no call, contribute all of their members.
+ */
+export function diffApiSnapshots(from: IntrospectionDump | ApiSnapshot, to: IntrospectionDump | ApiSnapshot): ApiSnapshotDiff {
+  const memberKey = ({path, kind}: ApiMember) => `${kind} ${path}`;
+  const fromMembers = listApiMembers(from);
+  const toMembers = listApiMembers(to);
+  const fromKeys = new Set(fromMembers.map(memberKey));
+  const toKeys = new Set(toMembers.map(memberKey));
+
+  return {
+    fromVersion: (from as Partial<ApiSnapshot>).versionPhone,
+    toVersion: (to as Partial<ApiSnapshot>).versionPhone,
+    added: toMembers.filter((member) => !fromKeys.has(memberKey(member))),
+    removed: fromMembers.filter((member) => !toKeys.has(memberKey(member))),
+  };
+}
+
+/**
+ * Formats a diff as lines like `- method createCall`, `+ property optionsGeneral.recordCalls`.
+ */
+export function formatApiSnapshotDiff(diff: ApiSnapshotDiff): string {
+  const lines = [
+    `${diff.fromVersion ?? 'unknown'} -> ${diff.toVersion ?? 'unknown'}:`,
+    ...diff.removed.map(({path, kind}) => `- ${kind} ${path}`),
+    ...diff.added.map(({path, kind}) => `+ ${kind} ${path}`),
+  ];
+
+  if (diff.removed.length === 0 && diff.added.length === 0) {
+    lines.push('no changes');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,76 @@
+import {RequestAbortedError, RequestTimeoutError, RPCErrorContext} from './errors';
+import {RPCManager} from './rpc-manager';
+
+export interface WaitForEventOptions {
+  /**
+   * Time in milliseconds after which the waiting fails with a {@link RequestTimeoutError}, `0` for no timeout.
+   */
+  timeout?: number;
+  /**
+   * Fails the waiting with a {@link RequestAbortedError} when aborted.
+   */
+  signal?: AbortSignal;
+  /**
+   * Describes the request that started the operation, for the errors.
+   */
+  context?: RPCErrorContext;
+}
+
+/**
+ * Starts an operation that reports its completion via a global callback, and waits for the completion.
+ * The listener is added before starting the operation, so that the completion can't be missed.
+ * @param rpcManager The manager to listen to.
+ * @param name The name of the global callback, e.g. `history-filter`.
+ * @param isCompletion Tells whether a callback invocation reports the completion.
+ * @param start Starts the operation, resolves to `false` if there is no completion to wait for.
+ */
+export function waitForEvent(
+  rpcManager: RPCManager<any, any>,
+  name: string,
+  isCompletion: (...args: any[]) => boolean,
+  start: () => Promise<boolean>,
+  options: WaitForEventOptions = {},
+): Promise<void> {
+  const {timeout = 0, signal, context = {}} = options;
+
+  return new Promise((resolve, reject) => {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let isSettled = false;
+
+    const listener = (...args: unknown[]) => {
+      if (isCompletion(...args)) {
+        settle(resolve);
+      }
+    };
+    const onAbort = () => settle(() => reject(new RequestAbortedError(context)));
+    const settle = (fn: () => void) => {
+      if (isSettled) {
+        return;
+      }
+
+      isSettled = true;
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+      rpcManager.off(name, listener);
+      fn();
+    };
+
+    if (signal?.aborted) {
+      reject(new RequestAbortedError(context));
+      return;
+    }
+
+    rpcManager.on(name, listener);
+    signal?.addEventListener('abort', onAbort);
+
+    if (timeout > 0) {
+      timeoutId = setTimeout(() => settle(() => reject(new RequestTimeoutError(timeout, context))), timeout);
+    }
+
+    start().then((shouldWait) => {
+      if (!shouldWait) {
+        settle(resolve);
+      }
+    }, (error) => settle(() => reject(error)));
+  });
+}
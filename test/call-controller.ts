@@ -0,0 +1,97 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {Call, CallController} from '../src/call-controller';
+import {ConnectionManager} from '../src/connection-manager';
+import {ResultError} from '../src/errors';
+import {RPCManager} from '../src/rpc-manager';
+import {MOCK_CONSTANTS, MockPhone} from '../src/testing/mock-phone';
+import {openMockSession} from './helpers/mock-session';
+
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+describe('CallController', () => {
+  let phone: MockPhone;
+  let rpcManager: RPCManager;
+  let connectionManager: ConnectionManager;
+  let callController: CallController;
+  let events: string[];
+
+  function waitForEvent(event: string) {
+    return new Promise<Call>((resolve) => {
+      const onCallUpdate = callController.onCallUpdate!;
+      callController.onCallUpdate = (call, callEvent) => {
+        onCallUpdate(call, callEvent);
+        if (callEvent === event) {
+          callController.onCallUpdate = onCallUpdate;
+          resolve(call);
+        }
+      };
+    });
+  }
+
+  beforeEach(async () => {
+    const session = await openMockSession();
+    ({phone, rpcManager, connectionManager} = session);
+    callController = new CallController(rpcManager, session.zoiperAPI);
+    events = [];
+    callController.onCallUpdate = (call, event) => events.push(`${call.number} ${event} ${call.state}`);
+  });
+
+  afterEach(() => connectionManager.closeConnection());
+
+  it('answers incoming calls', async () => {
+    await callController.start();
+    phone.simulateIncomingCall('1001');
+    const call = await waitForEvent('incoming');
+    expect(callController.incomingCalls).to.deep.equal([call]);
+    expect(call.direction).to.equal('incoming');
+    await call.answer();
+    await waitForEvent('accepted');
+    expect(callController.activeCall).to.equal(call);
+    expect(callController.incomingCalls).to.be.empty;
+    await call.hangup();
+    await waitForEvent('hangup');
+    expect(callController.calls).to.be.empty;
+    expect(callController.activeCall).to.be.undefined;
+    expect(events).to.deep.equal(['1001 incoming ringing', '1001 accepted active', '1001 hangup ended']);
+  });
+
+  it('controls outgoing calls', async () => {
+    await callController.start();
+    const call = await callController.dial('1002');
+    expect(call).to.include({number: '1002', direction: 'outgoing', state: 'dialing'});
+    phone.simulateRemoteAnswer(phone.calls[0]);
+    await waitForEvent('accepted');
+    await call.startRecording();
+    await waitForEvent('recording_started');
+    expect(call.isRecording).to.be.true;
+    await call.hold();
+    await waitForEvent('hold');
+    expect(call.state).to.equal('on-hold');
+    await call.unhold();
+    await waitForEvent('unhold');
+    await call.transfer('1003');
+    await waitForEvent('transferred');
+    expect(call.state).to.equal('ended');
+    expect(callController.calls).to.be.empty;
+  });
+
+  it('rejects failed operations', async () => {
+    await callController.start();
+    const call = await callController.dial('1002');
+    const error = await expect(call.answer()).to.be.rejectedWith(ResultError, 'Method "accept" failed');
+    expect(error.result).to.equal(MOCK_CONSTANTS.EAPI_ERROR_FAIL);
+  });
+
+  it('loads existing calls', async () => {
+    phone.simulateIncomingCall('1001');
+    await callController.start();
+    expect(callController.calls.map(({number, state}) => `${number} ${state}`)).to.deep.equal(['1001 ringing']);
+    phone.simulateRemoteHangup(phone.calls[0]);
+    await waitForEvent('hangup');
+    expect(events).to.deep.equal(['1001 hangup ended']);
+    callController.stop();
+  });
+});
@@ -0,0 +1,66 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {completeMemberPath, parseValue, resolveParent, resolvePath, toJSONValue} from '../src/cli/explore';
+import {ConnectionManager} from '../src/connection-manager';
+import {RPCManager} from '../src/rpc-manager';
+import {MockPhone} from '../src/testing/mock-phone';
+import {openMockSession} from './helpers/mock-session';
+
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+describe('CLI explore', () => {
+  let phone: MockPhone;
+  let rpcManager: RPCManager;
+  let connectionManager: ConnectionManager;
+  let zoiperAPI: any;
+
+  beforeEach(async () => {
+    ({phone, rpcManager, connectionManager, zoiperAPI} = await openMockSession(new MockPhone({accounts: ['Office']})));
+  });
+
+  afterEach(() => connectionManager.closeConnection());
+
+  it('resolves property paths', async () => {
+    expect(await resolvePath(rpcManager, zoiperAPI, 'accounts.defaultAccount.name')).to.equal('Office');
+    expect(await resolvePath(rpcManager, zoiperAPI, '')).to.equal(zoiperAPI);
+    await expect(resolvePath(rpcManager, zoiperAPI, 'versionPhone.length')).to.be.rejectedWith('"versionPhone" is not an object');
+
+    const {parent, name} = await resolveParent(rpcManager, zoiperAPI, 'optionsGeneral.recordCalls');
+    expect(parent).to.equal(await zoiperAPI.optionsGeneral);
+    expect(name).to.equal('recordCalls');
+    await expect(resolveParent(rpcManager, zoiperAPI, '')).to.be.rejectedWith('A member path is required');
+  });
+
+  it('parses values', () => {
+    expect(parseValue('true')).to.equal(true);
+    expect(parseValue('42')).to.equal(42);
+    expect(parseValue('"1001"')).to.equal('1001');
+    expect(parseValue('hello')).to.equal('hello');
+  });
+
+  it('converts values to JSON', async () => {
+    expect(await toJSONValue(rpcManager, await zoiperAPI.optionsGeneral)).to.deep.equal({recordCalls: false});
+    expect(await toJSONValue(rpcManager, undefined)).to.equal(null);
+
+    const root = await toJSONValue(rpcManager, zoiperAPI) as Record<string, unknown>;
+    expect(root.versionPhone).to.equal('5.0.0-mock');
+    expect(root.activeCall).to.equal(null);
+    expect(root.optionsGeneral).to.deep.equal({properties: ['recordCalls'], methods: ['apply']});
+  });
+
+  it('completes member paths', async () => {
+    const context = {phone: zoiperAPI};
+
+    expect(await completeMemberPath(rpcManager, context, 'phone.optionsGeneral.rec')).to.deep.equal([
+      'phone.optionsGeneral.recordCalls',
+    ]);
+    expect(await completeMemberPath(rpcManager, context, 'await phone.accounts.defaultAccount.')).to.deep.equal([
+      'phone.accounts.defaultAccount.name',
+    ]);
+    expect(await completeMemberPath(rpcManager, context, 'phone.versionPhone.')).to.deep.equal([]);
+    expect(await completeMemberPath(rpcManager, context, 'other.')).to.deep.equal([]);
+    expect(await completeMemberPath(rpcManager, context, 'phone')).to.deep.equal([]);
+  });
+});
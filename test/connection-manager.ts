@@ -0,0 +1,249 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {ConnectionManager, ConnectionState} from '../src/connection-manager';
+import {RequestTimeoutError, TransportClosedError} from '../src/errors';
+import type {RPCManager} from '../src/rpc-manager';
+
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+  static refuseConnections = false;
+
+  onopen?: () => void;
+  onclose?: (event: {code: number}) => void;
+  onerror?: () => void;
+  onmessage?: (event: {data: string}) => void;
+  isClosed = false;
+
+  constructor(public url: string, public protocol: string) {
+    FakeWebSocket.instances.push(this);
+
+    setTimeout(() => {
+      if (FakeWebSocket.refuseConnections) {
+        this.onerror?.();
+        this.drop();
+      } else {
+        this.onopen?.();
+      }
+    }, 0);
+  }
+
+  send(): void {}
+
+  close(): void {
+    this.drop(1000);
+  }
+
+  drop(code: number = 1006): void {
+    if (!this.isClosed) {
+      this.isClosed = true;
+      setTimeout(() => this.onclose?.({code}), 0);
+    }
+  }
+}
+
+function waitForState(connectionManager: ConnectionManager, state: ConnectionState): Promise<void> {
+  return new Promise((resolve) => {
+    const onStateChange = connectionManager.onStateChange;
+
+    connectionManager.onStateChange = (newState, previousState) => {
+      onStateChange?.call(connectionManager, newState, previousState);
+
+      if (newState === state) {
+        connectionManager.onStateChange = onStateChange;
+        resolve();
+      }
+    };
+  });
+}
+
+type RPCManagerStub = RPCManager & {resumeCount: number, rejectionCount: number, isResponsive: boolean};
+
+function createRPCManagerStub(): RPCManagerStub {
+  return {
+    resumeCount: 0,
+    rejectionCount: 0,
+    isInitialized: true,
+    isResponsive: true,
+    ping(this: RPCManagerStub, {timeout}: {timeout: number}) {
+      return new Promise((resolve, reject) => {
+        if (this.isResponsive) {
+          resolve(3);
+        } else {
+          setTimeout(() => reject(new RequestTimeoutError(timeout)), timeout);
+        }
+      });
+    },
+    getMetrics() {
+      return {latency: {count: 0, p50: 0, p90: 0, p99: 0, max: 0}, inFlightRequestCount: 0, callbacksPerSecond: 0};
+    },
+    async resume(this: RPCManagerStub) {
+      this.resumeCount += 1;
+    },
+    rejectPendingRequests(this: RPCManagerStub) {
+      this.rejectionCount += 1;
+    },
+    async processMessage(message: string) {
+      JSON.parse(message);
+    },
+    sendMessage() {},
+  } as unknown as RPCManagerStub;
+}
+
+describe('ConnectionManager', () => {
+  const globalScope = globalThis as {WebSocket?: unknown};
+  let originalWebSocket: unknown;
+
+  beforeEach(() => {
+    originalWebSocket = globalScope.WebSocket;
+    globalScope.WebSocket = FakeWebSocket;
+    FakeWebSocket.instances = [];
+    FakeWebSocket.refuseConnections = false;
+  });
+
+  afterEach(() => {
+    globalScope.WebSocket = originalWebSocket;
+  });
+
+  it('reports state changes', async () => {
+    const states: ConnectionState[] = [];
+    const connectionManager = new ConnectionManager(createRPCManagerStub(), {url: 'ws://localhost'});
+    connectionManager.onStateChange = (state) => states.push(state);
+    await connectionManager.openConnection();
+    expect(connectionManager.state).to.equal('open');
+    const closed = waitForState(connectionManager, 'closed');
+    connectionManager.closeConnection();
+    await closed;
+    expect(states).to.deep.equal(['connecting', 'open', 'closed']);
+  });
+
+  it('does not reconnect by default', async () => {
+    let closeCount = 0;
+    const connectionManager = new ConnectionManager(createRPCManagerStub(), {url: 'ws://localhost'});
+    connectionManager.onClose = () => closeCount++;
+    await connectionManager.openConnection();
+    const closed = waitForState(connectionManager, 'closed');
+    FakeWebSocket.instances[0].drop();
+    await closed;
+    expect(closeCount).to.equal(1);
+    expect(FakeWebSocket.instances).to.have.length(1);
+  });
+
+  it('reconnects and resumes the session', async () => {
+    let closeCount = 0;
+    const rpcManager = createRPCManagerStub();
+    const connectionManager = new ConnectionManager(rpcManager, {url: 'ws://localhost', reconnect: {initialDelay: 1}});
+    connectionManager.onClose = () => closeCount++;
+    await connectionManager.openConnection();
+    const reconnecting = waitForState(connectionManager, 'reconnecting');
+    FakeWebSocket.instances[0].drop();
+    await reconnecting;
+    await waitForState(connectionManager, 'open');
+    expect(FakeWebSocket.instances).to.have.length(2);
+    expect(rpcManager.resumeCount).to.equal(1);
+    expect(closeCount).to.equal(0);
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    let closeCount = 0;
+    const connectionManager = new ConnectionManager(createRPCManagerStub(), {
+      url: 'ws://localhost',
+      reconnect: {initialDelay: 1, maxAttempts: 3},
+    });
+    connectionManager.onClose = () => closeCount++;
+    await connectionManager.openConnection();
+    FakeWebSocket.refuseConnections = true;
+    const closed = waitForState(connectionManager, 'closed');
+    FakeWebSocket.instances[0].drop();
+    await closed;
+    expect(FakeWebSocket.instances).to.have.length(4);
+    expect(closeCount).to.equal(1);
+  });
+
+  it('stops reconnecting when closed explicitly', async () => {
+    const connectionManager = new ConnectionManager(createRPCManagerStub(), {
+      url: 'ws://localhost',
+      reconnect: {initialDelay: 1000},
+    });
+    await connectionManager.openConnection();
+    const reconnecting = waitForState(connectionManager, 'reconnecting');
+    FakeWebSocket.instances[0].drop();
+    await reconnecting;
+    const closed = waitForState(connectionManager, 'closed');
+    connectionManager.closeConnection();
+    await closed;
+    expect(FakeWebSocket.instances).to.have.length(1);
+  });
+
+  it('rejects pending requests when the connection closes', async () => {
+    const rpcManager = createRPCManagerStub();
+    const connectionManager = new ConnectionManager(rpcManager, {url: 'ws://localhost'});
+    await connectionManager.openConnection();
+    const closed = waitForState(connectionManager, 'closed');
+    FakeWebSocket.instances[0].drop();
+    await closed;
+    expect(rpcManager.rejectionCount).to.equal(1);
+    expect(() => rpcManager.sendMessage('{}')).to.throw(TransportClosedError);
+  });
+
+  it('closes the connection on invalid messages', async () => {
+    const rpcManager = createRPCManagerStub();
+    const connectionManager = new ConnectionManager(rpcManager, {url: 'ws://localhost'});
+    const closeEvents: unknown[] = [];
+    connectionManager.onClose = (event) => closeEvents.push(event);
+    await connectionManager.openConnection();
+    const closed = waitForState(connectionManager, 'closed');
+    FakeWebSocket.instances[0].onmessage!({data: '{"jsonrpc": "2.0",'});
+    await closed;
+    expect(closeEvents).to.deep.equal([{code: 1002, reason: 'Invalid message', wasClean: false}]);
+    expect(rpcManager.rejectionCount).to.equal(1);
+    expect(FakeWebSocket.instances[0].isClosed).to.be.true;
+  });
+
+  it('closes the connection once heartbeats go unanswered', async () => {
+    const rpcManager = createRPCManagerStub();
+    const connectionManager = new ConnectionManager(rpcManager, {
+      url: 'ws://localhost',
+      heartbeat: {interval: 5, timeout: 5, maxMissed: 2},
+    });
+    const closeEvents: unknown[] = [];
+    connectionManager.onClose = (event) => closeEvents.push(event);
+    await connectionManager.openConnection();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(connectionManager.getMetrics()).to.include({state: 'open', missedHeartbeatCount: 0, lastHeartbeatLatency: 3});
+    rpcManager.isResponsive = false;
+    await waitForState(connectionManager, 'closed');
+    expect(closeEvents).to.deep.equal([{code: 1006, reason: 'Heartbeats timed out', wasClean: false}]);
+    expect(connectionManager.getMetrics()).to.include({state: 'closed', missedHeartbeatCount: 2});
+    expect(rpcManager.rejectionCount).to.equal(1);
+    expect(FakeWebSocket.instances[0].isClosed).to.be.true;
+  });
+
+  it('reconnects once heartbeats go unanswered', async () => {
+    const rpcManager = createRPCManagerStub();
+    const connectionManager = new ConnectionManager(rpcManager, {
+      url: 'ws://localhost',
+      reconnect: {initialDelay: 1},
+      heartbeat: {interval: 5, timeout: 5, maxMissed: 1},
+    });
+    await connectionManager.openConnection();
+    rpcManager.isResponsive = false;
+    await waitForState(connectionManager, 'reconnecting');
+    rpcManager.isResponsive = true;
+    await waitForState(connectionManager, 'open');
+    expect(FakeWebSocket.instances).to.have.length(2);
+    expect(connectionManager.getMetrics()).to.deep.equal({
+      latency: {count: 0, p50: 0, p90: 0, p99: 0, max: 0},
+      inFlightRequestCount: 0,
+      callbacksPerSecond: 0,
+      state: 'open',
+      reconnectCount: 1,
+      missedHeartbeatCount: 0,
+      lastHeartbeatLatency: undefined,
+    });
+    connectionManager.closeConnection();
+  });
+});
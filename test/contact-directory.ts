@@ -0,0 +1,54 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {ConnectionManager} from '../src/connection-manager';
+import {ContactDirectory} from '../src/contact-directory';
+import {MockPhone} from '../src/testing/mock-phone';
+import {openMockSession} from './helpers/mock-session';
+
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+describe('ContactDirectory', () => {
+  const contacts = [
+    {name: 'Alice', phones: ['1001', '1002']},
+    {name: 'Bob', phones: ['2001']},
+    {name: 'Alfred', phones: []},
+  ];
+  let connectionManager: ConnectionManager;
+  let contactDirectory: ContactDirectory;
+
+  beforeEach(async () => {
+    const session = await openMockSession(new MockPhone({contacts}));
+    connectionManager = session.connectionManager;
+    contactDirectory = new ContactDirectory(session.rpcManager, session.zoiperAPI);
+  });
+
+  afterEach(() => connectionManager.closeConnection());
+
+  it('searches contacts', async () => {
+    expect(await contactDirectory.searchContacts('al', {timeout: 1000})).to.deep.equal([
+      {name: 'Alice', hidden: false, phones: ['1001', '1002']},
+      {name: 'Alfred', hidden: false, phones: []},
+    ]);
+    expect(await contactDirectory.searchContacts('2001', {limit: 1})).to.deep.equal([
+      {name: 'Bob', hidden: false, phones: ['2001']},
+    ]);
+  });
+
+  it('returns the current contacts when the filter is unchanged', async () => {
+    await contactDirectory.searchContacts('bob');
+    expect(await contactDirectory.searchContacts('bob', {timeout: 1000})).to.have.lengthOf(1);
+  });
+
+  it('runs one search at a time', async () => {
+    const [alContacts, bobContacts, allContacts] = await Promise.all([
+      contactDirectory.searchContacts('al'),
+      contactDirectory.searchContacts('bob'),
+      contactDirectory.searchContacts(''),
+    ]);
+    expect(alContacts.map(({name}) => name)).to.deep.equal(['Alice', 'Alfred']);
+    expect(bobContacts.map(({name}) => name)).to.deep.equal(['Bob']);
+    expect(allContacts).to.have.lengthOf(3);
+  });
+});
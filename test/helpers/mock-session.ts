@@ -0,0 +1,24 @@
+import {ConnectionManager} from '../../src/connection-manager';
+import {RPCManager} from '../../src/rpc-manager';
+import {MockPhone} from '../../src/testing/mock-phone';
+import {MockServer} from '../../src/testing/mock-server';
+
+export interface MockSession {
+  phone: MockPhone;
+  rpcManager: RPCManager;
+  connectionManager: ConnectionManager;
+  zoiperAPI: any;
+}
+
+/**
+ * Connects a new manager to a mock server serving the phone, and initializes it.
+ * Close the connection via `connectionManager.closeConnection()` once done.
+ */
+export async function openMockSession(phone: MockPhone = new MockPhone()): Promise<MockSession> {
+  const rpcManager = new RPCManager();
+  const connectionManager = new ConnectionManager(rpcManager, {transport: new MockServer({root: phone.root}).createTransport()});
+
+  await connectionManager.openConnection();
+
+  return {phone, rpcManager, connectionManager, zoiperAPI: await rpcManager.initialize('valid token')};
+}
@@ -0,0 +1,81 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {ConnectionManager} from '../src/connection-manager';
+import {RequestAbortedError} from '../src/errors';
+import {HistoryQuery} from '../src/history-query';
+import {RPCManager} from '../src/rpc-manager';
+import {MOCK_CONSTANTS, MockHistoryRecord, MockPhone} from '../src/testing/mock-phone';
+import {openMockSession} from './helpers/mock-session';
+
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+describe('HistoryQuery', () => {
+  const {EORIGIN_LOCAL, EORIGIN_REMOTE, EORIGIN_FAILURE} = MOCK_CONSTANTS;
+  const history: MockHistoryRecord[] = [
+    {datetime: '2024-01-01 10:00', peerNumber: '1001', origin: EORIGIN_LOCAL, established: true, terminationOrigin: EORIGIN_LOCAL},
+    {datetime: '2024-01-01 11:00', peerNumber: '1002', origin: EORIGIN_REMOTE, established: false, terminationOrigin: EORIGIN_REMOTE},
+    {datetime: '2024-01-01 12:00', peerNumber: '1003', origin: EORIGIN_REMOTE, established: false, terminationOrigin: EORIGIN_LOCAL},
+    {
+      datetime: '2024-01-01 13:00',
+      peerNumber: '1004',
+      origin: EORIGIN_LOCAL,
+      established: false,
+      terminationOrigin: EORIGIN_FAILURE,
+      terminationError: {text: 'Not found', layerCode: 404},
+    },
+  ];
+  let rpcManager: RPCManager;
+  let connectionManager: ConnectionManager;
+  let zoiperAPI: any;
+  let removedFilterCount: number;
+
+  beforeEach(async () => {
+    const phone = new MockPhone({history});
+    const historyService = (phone.root as any).historyService;
+    const removeFilter = historyService.removeFilter;
+    removedFilterCount = 0;
+    historyService.removeFilter = (historyFilter: object) => {
+      removedFilterCount += 1;
+      return removeFilter(historyFilter);
+    };
+    ({rpcManager, connectionManager, zoiperAPI} = await openMockSession(phone));
+  });
+
+  afterEach(() => connectionManager.closeConnection());
+
+  it('reads the call history', async () => {
+    const records = await new HistoryQuery(rpcManager, zoiperAPI).timeout(1000).run();
+    expect(records.map(({peerNumber, direction, outcome}) => `${peerNumber} ${direction} ${outcome}`)).to.deep.equal([
+      '1001 outgoing answered',
+      '1002 incoming missed',
+      '1003 incoming rejected',
+      '1004 outgoing failed',
+    ]);
+    expect(records[3]).to.deep.equal({
+      datetime: '2024-01-01 13:00',
+      peerNumber: '1004',
+      direction: 'outgoing',
+      origin: EORIGIN_LOCAL,
+      established: false,
+      terminationOrigin: EORIGIN_FAILURE,
+      terminationError: {text: 'Not found', layerCode: 404},
+      outcome: 'failed',
+    });
+    expect(records[0]).to.not.have.property('terminationError');
+    expect(removedFilterCount).to.equal(1);
+  });
+
+  it('applies the limit and types', async () => {
+    expect(await new HistoryQuery(rpcManager, zoiperAPI).limit(2).run()).to.have.lengthOf(2);
+    expect(await new HistoryQuery(rpcManager, zoiperAPI).types(MOCK_CONSTANTS.EHISTORY_TYPE_MESSAGE).run()).to.be.empty;
+  });
+
+  it('removes the filter when failing', async () => {
+    const abortController = new AbortController();
+    abortController.abort();
+    await expect(new HistoryQuery(rpcManager, zoiperAPI).signal(abortController.signal).run()).to.be.rejectedWith(RequestAbortedError);
+    expect(removedFilterCount).to.equal(1);
+  });
+});
@@ -0,0 +1,113 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {ConnectionManager} from '../src/connection-manager';
+import {AuthenticationError, RemoteError} from '../src/errors';
+import {RPCManager} from '../src/rpc-manager';
+import {MockPhone} from '../src/testing/mock-phone';
+import {MockServer} from '../src/testing/mock-server';
+
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+function createClient(server: MockServer, globalCallbacksMap: {[name: string]: Function} = {}) {
+  const rpcManager = new RPCManager(globalCallbacksMap);
+  const connectionManager = new ConnectionManager(rpcManager, {
+    transport: server.createTransport(),
+    reconnect: {initialDelay: 0},
+  });
+
+  return {rpcManager, connectionManager};
+}
+
+describe('MockServer', () => {
+  it('rejects invalid tokens', async () => {
+    const server = new MockServer({root: new MockPhone().root, tokens: ['valid token']});
+    const {rpcManager, connectionManager} = createClient(server);
+    await connectionManager.openConnection();
+    await expect(rpcManager.initialize('invalid token')).to.be.rejectedWith(AuthenticationError, 'Access denied.');
+    connectionManager.closeConnection();
+  });
+
+  it('serves the object model', async () => {
+    const server = new MockServer({root: new MockPhone({versionPhone: '5.1.0'}).root});
+    const {rpcManager, connectionManager} = createClient(server);
+    await connectionManager.openConnection();
+    const zoiperAPI: any = await rpcManager.initialize('valid token');
+    expect(await zoiperAPI.versionPhone).to.equal('5.1.0');
+    expect(await zoiperAPI.optionsGeneral).to.equal(await zoiperAPI.optionsGeneral);
+    const optionsGeneral = await zoiperAPI.optionsGeneral;
+    await rpcManager.set(optionsGeneral, 'recordCalls', true);
+    expect(await optionsGeneral.recordCalls).to.be.true;
+    await expect(rpcManager.get(zoiperAPI, 'unknown')).to.be.rejectedWith(RemoteError, 'Unknown property: unknown');
+    connectionManager.closeConnection();
+  });
+
+  it('invokes callbacks', async () => {
+    const phone = new MockPhone();
+    const server = new MockServer({root: phone.root});
+    const events: string[] = [];
+    let incomingCall: any;
+    const {rpcManager, connectionManager} = createClient(server, {
+      call: (call: object, event: string) => {
+        events.push(event);
+        incomingCall = event === 'incoming' ? call : incomingCall;
+      },
+    });
+    await connectionManager.openConnection();
+    const zoiperAPI: any = await rpcManager.initialize('valid token');
+    let outgoingCall: any;
+    await zoiperAPI.createCall('1001', false, '', (result: number, call: object) => outgoingCall = call);
+    expect(await outgoingCall.phone).to.equal('1001');
+    expect(await zoiperAPI.activeCall).to.equal(outgoingCall);
+    await outgoingCall.hangup();
+    phone.simulateIncomingCall('1002');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(await incomingCall.isRinging).to.be.true;
+    await incomingCall.accept(false);
+    expect(await incomingCall.isRinging).to.be.false;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(events).to.deep.equal(['outgoing', 'hangup', 'incoming', 'accepted', 'active_call']);
+    connectionManager.closeConnection();
+  });
+
+  it('allows resuming the session', async () => {
+    const phone = new MockPhone();
+    const server = new MockServer({root: phone.root});
+    const events: string[] = [];
+    const {rpcManager, connectionManager} = createClient(server, {
+      call: (call: object, event: string) => events.push(event),
+    });
+    await connectionManager.openConnection();
+    const zoiperAPI: any = await rpcManager.initialize('valid token');
+    const reconnected = new Promise<void>((resolve) => {
+      connectionManager.onStateChange = (state) => state === 'open' && resolve();
+    });
+    server.closeConnections();
+    await reconnected;
+    expect(server.connectionCount).to.equal(1);
+    expect(await zoiperAPI.versionPhone).to.equal('5.0.0-mock');
+    phone.simulateIncomingCall('1002');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(events).to.deep.equal(['incoming']);
+    connectionManager.closeConnection();
+  });
+
+  it('answers invalid messages with a parse error', async () => {
+    const server = new MockServer({root: new MockPhone().root});
+    const transport = server.createTransport();
+    const messages: string[] = [];
+    const unhandledRejections: unknown[] = [];
+    const onUnhandledRejection = (reason: unknown) => unhandledRejections.push(reason);
+    transport.onMessage = (message) => messages.push(message);
+    await transport.open();
+    process.on('unhandledRejection', onUnhandledRejection);
+    transport.send('{"jsonrpc": "2.0",');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    process.off('unhandledRejection', onUnhandledRejection);
+    expect(unhandledRejections).to.be.empty;
+    expect(messages.map((message) => JSON.parse(message).error.code)).to.deep.equal([-32700]);
+    expect(server.connectionCount).to.equal(1);
+    transport.close();
+  });
+});
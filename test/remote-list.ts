@@ -0,0 +1,68 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {ConnectionManager} from '../src/connection-manager';
+import {ListItemError} from '../src/errors';
+import {RPCManager} from '../src/rpc-manager';
+import {MockPhone} from '../src/testing/mock-phone';
+import {openMockSession} from './helpers/mock-session';
+
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+describe('RemoteList', () => {
+  const contacts = ['Alice', 'Bob', 'Carol', 'Dave', 'Eve'].map((name, index) => ({name, phones: [`100${index}`]}));
+  let rpcManager: RPCManager;
+  let connectionManager: ConnectionManager;
+  let zoiperAPI: any;
+
+  beforeEach(async () => {
+    ({rpcManager, connectionManager, zoiperAPI} = await openMockSession(new MockPhone({contacts})));
+  });
+
+  afterEach(() => connectionManager.closeConnection());
+
+  it('gets items', async () => {
+    const list = rpcManager.list(zoiperAPI.contacts);
+    expect(await list.count()).to.equal(5);
+    expect(await (await list.itemAt(1)).name).to.equal('Bob');
+    const names = await Promise.all((await list.slice(-2)).map((contact) => contact.name));
+    expect(names).to.deep.equal(['Dave', 'Eve']);
+  });
+
+  it('iterates over items', async () => {
+    const names: string[] = [];
+    for await (const contact of rpcManager.list(zoiperAPI.contacts, {concurrency: 2})) {
+      names.push(await contact.name);
+    }
+    expect(names).to.deep.equal(['Alice', 'Bob', 'Carol', 'Dave', 'Eve']);
+  });
+
+  it('requests items concurrently', async () => {
+    const contactList = await zoiperAPI.contacts;
+    let pendingCount = 0;
+    let maxPendingCount = 0;
+    const list = rpcManager.list({
+      count: contactList.count,
+      async itemAt(index: number, callback: (result: number, item: any) => void) {
+        pendingCount += 1;
+        maxPendingCount = Math.max(maxPendingCount, pendingCount);
+        await contactList.itemAt(index, callback);
+        pendingCount -= 1;
+      },
+    }, {concurrency: 3});
+    const items = await list.toArray();
+    expect(items).to.have.lengthOf(5);
+    expect(await items[4].name).to.equal('Eve');
+    expect(maxPendingCount).to.equal(3);
+  });
+
+  it('handles failed items', async () => {
+    const contactList = await zoiperAPI.contacts;
+    const list = {count: Promise.resolve(6), itemAt: contactList.itemAt};
+    await expect(rpcManager.list(zoiperAPI.contacts).itemAt(5)).to.be.rejectedWith(ListItemError)
+      .and.eventually.include({index: 5, result: 2});
+    await expect(rpcManager.list(list).toArray()).to.be.rejectedWith(ListItemError);
+    expect(await rpcManager.list(list, {skipFailedItems: true}).toArray()).to.have.lengthOf(5);
+  });
+});
@@ -0,0 +1,69 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {ConnectionManager} from '../src/connection-manager';
+import {ReplayMismatchError} from '../src/errors';
+import {Recorder, Recording} from '../src/interceptors/recorder';
+import {RPCManager} from '../src/rpc-manager';
+import {MockPhone} from '../src/testing/mock-phone';
+import {MockServer} from '../src/testing/mock-server';
+import {Transport} from '../src/transports/transport';
+import {ReplayTransport} from '../src/transports/replay-transport';
+
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+async function runSession(transport: Transport, onConnected: () => void = () => {}) {
+  const events: string[] = [];
+  const rpcManager = new RPCManager({
+    call: (call: any, event: string) => events.push(event),
+  });
+  const recorder = new Recorder();
+  rpcManager.use(recorder);
+  const connectionManager = new ConnectionManager(rpcManager, {transport});
+  await connectionManager.openConnection();
+  const zoiperAPI: any = await rpcManager.initialize('secret token');
+  onConnected();
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  const versionPhone = await zoiperAPI.versionPhone;
+  connectionManager.closeConnection();
+
+  return {events, versionPhone, recording: recorder.getRecording()};
+}
+
+describe('Recorder and ReplayTransport', () => {
+  let recording: Recording;
+
+  before(async () => {
+    const phone = new MockPhone();
+    const server = new MockServer({root: phone.root});
+    ({recording} = await runSession(server.createTransport(), () => phone.simulateIncomingCall('1001')));
+  });
+
+  it('records the session', () => {
+    expect(recording.messages[0]).to.deep.include({
+      direction: 'outgoing',
+      message: {jsonrpc: '2.0', id: 1, method: 'authenticate', params: ['[redacted]']},
+    });
+    expect(recording.messages.map(({direction, message}) => `${direction} ${message.method}`)).to.include('incoming callback');
+  });
+
+  it('replays the session', async () => {
+    const transport = new ReplayTransport(recording);
+    const session = await runSession(transport);
+    expect(session.events).to.deep.equal(['incoming']);
+    expect(session.versionPhone).to.equal('5.0.0-mock');
+    expect(transport.isComplete).to.be.true;
+    expect(session.recording.messages.map(({message}) => message)).to.deep.equal(recording.messages.map(({message}) => message));
+  });
+
+  it('rejects unexpected messages', async () => {
+    const transport = new ReplayTransport(recording);
+    const rpcManager = new RPCManager({call: () => {}});
+    const connectionManager = new ConnectionManager(rpcManager, {transport});
+    await connectionManager.openConnection();
+    const zoiperAPI = await rpcManager.initialize('secret token');
+    await expect(rpcManager.call(zoiperAPI, 'saveOptions')).to.be.rejectedWith(ReplayMismatchError, 'Unexpected message');
+    connectionManager.closeConnection();
+  });
+});
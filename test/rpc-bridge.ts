@@ -0,0 +1,143 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {RPCBridge, ServerWebSocketLike} from '../src/bridge/rpc-bridge';
+import {ConnectionManager} from '../src/connection-manager';
+import {AuthenticationError, RemoteError} from '../src/errors';
+import {RPCManager} from '../src/rpc-manager';
+import {MockPhone} from '../src/testing/mock-phone';
+import {MockServer} from '../src/testing/mock-server';
+
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+describe('RPCBridge', () => {
+  const nextTick = () => new Promise((resolve) => setTimeout(resolve, 10));
+  let phone: MockPhone;
+  let upstreamManager: RPCManager;
+  let upstreamAPI: object;
+  let upstreamConnectionManager: ConnectionManager;
+  let bridge: RPCBridge;
+  let connectionManagers: ConnectionManager[];
+
+  async function connect(rpcManager: RPCManager, token: string) {
+    const connectionManager = new ConnectionManager(rpcManager, {transport: bridge.createTransport()});
+    connectionManagers.push(connectionManager);
+    await connectionManager.openConnection();
+
+    return rpcManager.initialize(token);
+  }
+
+  beforeEach(async () => {
+    phone = new MockPhone({contacts: [{name: 'Alice', phones: ['1001']}]});
+    upstreamManager = new RPCManager();
+    upstreamConnectionManager = new ConnectionManager(upstreamManager, {
+      transport: new MockServer({root: phone.root, tokens: ['phone token']}).createTransport(),
+    });
+    await upstreamConnectionManager.openConnection();
+    upstreamAPI = await upstreamManager.initialize('phone token');
+    bridge = new RPCBridge(upstreamManager, upstreamAPI, {tokens: ['crm token', 'wallboard token']});
+    connectionManagers = [];
+  });
+
+  afterEach(() => {
+    connectionManagers.forEach((connectionManager) => connectionManager.closeConnection());
+    upstreamConnectionManager.closeConnection();
+  });
+
+  it('serves multiple clients', async () => {
+    const crmAPI: any = await connect(new RPCManager(), 'crm token');
+    const wallboardAPI: any = await connect(new RPCManager(), 'wallboard token');
+    expect(bridge.connectionCount).to.equal(2);
+    expect(await crmAPI.versionPhone).to.equal('5.0.0-mock');
+    expect(await wallboardAPI.versionPhone).to.equal('5.0.0-mock');
+    const optionsGeneral = await crmAPI.optionsGeneral;
+    optionsGeneral.recordCalls = true;
+    await nextTick();
+    expect(await (await wallboardAPI.optionsGeneral).recordCalls).to.be.true;
+  });
+
+  it('forwards callbacks and errors', async () => {
+    const rpcManager = new RPCManager();
+    const zoiperAPI: any = await connect(rpcManager, 'crm token');
+    const contact = await rpcManager.list(zoiperAPI.contacts).itemAt(0);
+    expect(await contact.name).to.equal('Alice');
+    await expect(rpcManager.get(zoiperAPI, 'missing')).to.be.rejectedWith(RemoteError, 'Unknown property: missing');
+  });
+
+  it('delivers global callbacks to every client', async () => {
+    const events: string[] = [];
+    const crmManager = new RPCManager({call: async (call: any, event: string) => events.push(`crm ${event} ${await call.phone}`)});
+    const wallboardManager = new RPCManager({call: (call: unknown, event: string) => events.push(`wallboard ${event}`)});
+    await connect(crmManager, 'crm token');
+    await connect(wallboardManager, 'wallboard token');
+    phone.simulateIncomingCall('1002');
+    await nextTick();
+    expect(events.sort()).to.deep.equal(['crm incoming 1002', 'wallboard incoming']);
+    connectionManagers[1].closeConnection();
+    await nextTick();
+    expect(bridge.connectionCount).to.equal(1);
+    phone.simulateIncomingCall('1003');
+    await nextTick();
+    expect(events).to.have.lengthOf(3);
+  });
+
+  it('forgets the objects used least recently', async () => {
+    bridge = new RPCBridge(upstreamManager, upstreamAPI, {tokens: ['crm token'], maxScriptObjects: 3});
+    const zoiperAPI: any = await connect(new RPCManager(), 'crm token');
+    const optionsGeneral = await zoiperAPI.optionsGeneral;
+    expect(await optionsGeneral.recordCalls).to.be.false;
+    await zoiperAPI.accounts;
+    await zoiperAPI.contacts;
+    await expect(optionsGeneral.recordCalls).to.be.rejectedWith(RemoteError, 'Unknown script object');
+    expect(await zoiperAPI.versionPhone).to.equal('5.0.0-mock');
+    expect(await (await zoiperAPI.optionsGeneral).recordCalls).to.be.false;
+  });
+
+  it('rejects unknown tokens', async () => {
+    await expect(connect(new RPCManager(), 'phone token')).to.be.rejectedWith(AuthenticationError);
+  });
+
+  it('serves WebSocket connections', async () => {
+    const sentMessages: string[] = [];
+    const socketListeners: Record<string, Function> = {};
+    const socket: ServerWebSocketLike = {
+      send: (data) => sentMessages.push(data),
+      close: () => socketListeners.close(),
+      on: (event: string, listener: Function) => socketListeners[event] = listener,
+    };
+    bridge.listen({on: (event, listener) => listener(socket)});
+    socketListeners.message(Buffer.from(JSON.stringify({jsonrpc: '2.0', id: 1, method: 'authenticate', params: ['crm token']})));
+    await nextTick();
+    expect(sentMessages.map((message) => JSON.parse(message))).to.deep.equal([{jsonrpc: '2.0', id: 1, result: true}]);
+    socket.close();
+    expect(bridge.connectionCount).to.equal(0);
+  });
+
+  it('closes failing WebSocket connections', async () => {
+    const sentMessages: string[] = [];
+    const unhandledRejections: unknown[] = [];
+    const onUnhandledRejection = (reason: unknown) => unhandledRejections.push(reason);
+    const createSocket = () => {
+      const socketListeners: Record<string, Function> = {};
+      const socket: ServerWebSocketLike = {
+        send: (data) => sentMessages.push(data),
+        close: () => socketListeners.close(),
+        on: (event: string, listener: Function) => socketListeners[event] = listener,
+      };
+
+      bridge.listen({on: (event, listener) => listener(socket)});
+
+      return socketListeners;
+    };
+    process.on('unhandledRejection', onUnhandledRejection);
+    createSocket().message('{"jsonrpc": "2.0",');
+    await nextTick();
+    process.off('unhandledRejection', onUnhandledRejection);
+    expect(unhandledRejections).to.be.empty;
+    expect(sentMessages.map((message) => JSON.parse(message).error.code)).to.deep.equal([-32700]);
+    expect(bridge.connectionCount).to.equal(0);
+    createSocket().error(new Error('Invalid WebSocket frame'));
+    expect(bridge.connectionCount).to.equal(0);
+  });
+});
@@ -1,6 +1,23 @@
 import chai from 'chai';
 import chaiAsPromised from 'chai-as-promised';
-import {RPCManager} from '../src/rpc-manager';
+import {AccessPolicy, MemberAccess} from '../src/access-policy';
+import {ConnectionManager} from '../src/connection-manager';
+import {JSONRPCMessage} from '../src/interceptors/interceptor';
+import {CallbackDispatchOptions, RPCManager} from '../src/rpc-manager';
+import {MOCK_CONSTANTS, MockPhone} from '../src/testing/mock-phone';
+import {MockServer} from '../src/testing/mock-server';
+import {LoopbackEndpoint, LoopbackTransport} from '../src/transports/loopback-transport';
+import {
+  AccessDeniedError,
+  AuthenticationError,
+  ReleasedScriptObjectError,
+  RemoteError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  ResultError,
+  TransportClosedError,
+  UnknownScriptObjectError,
+} from '../src/errors';
 
 chai.use(chaiAsPromised);
 
@@ -72,12 +89,13 @@ describe('RPCManager', () => {
         message: 'Access denied.',
       }}},
     ]);
-    await expect(rpcManager.initialize('invalid token')).to.eventually.be.rejected;
+    const error = await expect(rpcManager.initialize('invalid token')).to.eventually.be.rejectedWith(AuthenticationError);
+    expect(error).to.include({code: 1, message: 'Access denied.', requestId: 1, method: 'authenticate'});
     await finishedPromise;
   });
 
   it('initializes', async () => {
-    const rpcManager = new RPCManager({});
+    const rpcManager = new RPCManager({}, {loadConstants: false});
     const outgoingCounter = setupIdCounter();
     const finishedPromise = setupTest(rpcManager, [
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'authenticate', params: ['valid token']}},
@@ -85,8 +103,8 @@ describe('RPCManager', () => {
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'getRootObject'}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 123}}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 123}]}},
-      {type: 'in', payload: {id: outgoingCounter.response(), result: ['foo']}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: ['foo']}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: ['bar']}},
     ]);
     const rootObject = await rpcManager.initialize('valid token');
@@ -94,6 +112,7 @@ describe('RPCManager', () => {
     expect('foo' in rootObject).to.be.true;
     expect('bar' in rootObject).to.be.true;
     expect('baz' in rootObject).to.be.false;
+    expect(() => rpcManager.constants).to.throw('loadConstants');
     await finishedPromise;
   });
 
@@ -104,7 +123,7 @@ describe('RPCManager', () => {
       foo: fn1,
       bar: fn2,
       baz: fn2,
-    });
+    }, {loadConstants: false});
     const outgoingCounter = setupIdCounter();
     const finishedPromise = setupTest(rpcManager, [
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'authenticate', params: ['valid token']}},
@@ -112,8 +131,8 @@ describe('RPCManager', () => {
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'getRootObject'}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 123}}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 123}]}},
-      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: ['registerCallback']}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'execute', params: [
         {type: 'scriptObject', scriptObject: 123},
@@ -133,7 +152,7 @@ describe('RPCManager', () => {
         {type: 'scriptObject', scriptObject: 123},
         'registerCallback',
         'baz',
-        {type: 'scriptObject', scriptObject: 2},
+        {type: 'scriptObject', scriptObject: 3},
       ]}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: 0}},
     ]);
@@ -147,7 +166,7 @@ describe('RPCManager', () => {
       foo() {
         hasBeenCalled = true;
       },
-    });
+    }, {loadConstants: false});
     const incomingCounter = setupIdCounter(1000);
     const outgoingCounter = setupIdCounter();
     const finishedPromise = setupTest(rpcManager, [
@@ -156,8 +175,8 @@ describe('RPCManager', () => {
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'getRootObject'}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 123}}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 123}]}},
-      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: ['registerCallback']}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'execute', params: [{type: 'scriptObject', scriptObject: 123},
         'registerCallback',
@@ -173,8 +192,49 @@ describe('RPCManager', () => {
     expect(hasBeenCalled).to.be.true;
   });
 
+  it('resumes the session', async () => {
+    const rpcManager = new RPCManager({
+      foo() {},
+    }, {loadConstants: false});
+    const outgoingCounter = setupIdCounter();
+    const finishedPromise = setupTest(rpcManager, [
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'authenticate', params: ['valid token']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: true}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'getRootObject'}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 123}}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: ['foo']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: ['registerCallback']}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'execute', params: [
+        {type: 'scriptObject', scriptObject: 123},
+        'registerCallback',
+        'foo',
+        {type: 'scriptObject', scriptObject: 1},
+      ]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: 0}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'authenticate', params: ['valid token']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: true}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'getRootObject'}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 456}}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'execute', params: [
+        {type: 'scriptObject', scriptObject: 456},
+        'registerCallback',
+        'foo',
+        {type: 'scriptObject', scriptObject: 1},
+      ]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: 0}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'get', params: [{type: 'scriptObject', scriptObject: 456}, 'foo']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: 42}},
+    ]);
+    const rootObject = await rpcManager.initialize('valid token');
+    await rpcManager.resume();
+    await expect(rootObject).to.have.property('foo').that.eventually.equals(42);
+    await finishedPromise;
+  });
+
   it('serializes setter values properly', async () => {
-    const rpcManager = new RPCManager({});
+    const rpcManager = new RPCManager({}, {loadConstants: false});
     const outgoingCounter = setupIdCounter();
     const finishedPromise = setupTest(rpcManager, [
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'authenticate', params: ['valid token']}},
@@ -182,8 +242,8 @@ describe('RPCManager', () => {
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'getRootObject'}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 123}}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 123}]}},
-      {type: 'in', payload: {id: outgoingCounter.response(), result: ['emptyValue', 'invalidObject', 'validObject', 'boolean', 'number', 'string']}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: ['emptyValue', 'invalidObject', 'validObject', 'boolean', 'number', 'string']}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'set', params: [{type: 'scriptObject', scriptObject: 123}, 'boolean', true]}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'set', params: [{type: 'scriptObject', scriptObject: 123}, 'number', 42]}},
@@ -209,7 +269,7 @@ describe('RPCManager', () => {
   });
 
   it('deserializes getter values properly', async () => {
-    const rpcManager = new RPCManager({});
+    const rpcManager = new RPCManager({}, {loadConstants: false});
     const outgoingCounter = setupIdCounter();
     const finishedPromise = setupTest(rpcManager, [
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'authenticate', params: ['valid token']}},
@@ -217,8 +277,8 @@ describe('RPCManager', () => {
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'getRootObject'}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 123}}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 123}]}},
-      {type: 'in', payload: {id: outgoingCounter.response(), result: ['emptyValue', 'invalidObject', 'validObject', 'boolean', 'number', 'string']}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: ['emptyValue', 'invalidObject', 'validObject', 'boolean', 'number', 'string']}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'get', params: [{type: 'scriptObject', scriptObject: 123}, 'boolean']}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: true}},
@@ -232,10 +292,6 @@ describe('RPCManager', () => {
       {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 0}}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'get', params: [{type: 'scriptObject', scriptObject: 123}, 'validObject']}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 123}}},
-      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 123}]}},
-      {type: 'in', payload: {id: outgoingCounter.response(), result: ['emptyValue', 'invalidObject', 'validObject', 'boolean', 'number', 'string']}},
-      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 123}]}},
-      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
     ]);
     const rootObject = await rpcManager.initialize('valid token');
     await expect(rootObject).to.have.property('boolean').that.eventually.equals(true);
@@ -243,21 +299,14 @@ describe('RPCManager', () => {
     await expect(rootObject).to.have.property('string').that.eventually.equals('Hello');
     await expect(rootObject).to.have.property('emptyValue').that.eventually.equals(undefined);
     await expect(rootObject).to.have.property('invalidObject').that.eventually.equals(null);
-    await expect(rootObject).to.have.property('validObject').that.eventually.has.all.keys(
-      'emptyValue',
-      'invalidObject',
-      'validObject',
-      'boolean',
-      'number',
-      'string',
-    );
+    await expect(rootObject).to.have.property('validObject').that.eventually.equals(rootObject);
     await finishedPromise;
   });
 
   it('serializes function arguments properly', async () => {
     const fn1 = () => {};
     const fn2 = () => {};
-    const rpcManager = new RPCManager({});
+    const rpcManager = new RPCManager({}, {loadConstants: false});
     const outgoingCounter = setupIdCounter();
     const finishedPromise = setupTest(rpcManager, [
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'authenticate', params: ['valid token']}},
@@ -265,8 +314,8 @@ describe('RPCManager', () => {
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'getRootObject'}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 123}}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 123}]}},
-      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: ['foo']}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'execute', params: [
         {type: 'scriptObject', scriptObject: 123},
@@ -289,7 +338,7 @@ describe('RPCManager', () => {
   });
 
   it('deserializes function return value properly', async () => {
-    const rpcManager = new RPCManager({});
+    const rpcManager = new RPCManager({}, {loadConstants: false});
     const outgoingCounter = setupIdCounter();
     const finishedPromise = setupTest(rpcManager, [
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'authenticate', params: ['valid token']}},
@@ -297,8 +346,8 @@ describe('RPCManager', () => {
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'getRootObject'}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 123}}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 123}]}},
-      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: ['getBoolean', 'getNumber', 'getString', 'getEmptyValue', 'getInvalidObject', 'getValidObject']}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'execute', params: [{type: 'scriptObject', scriptObject: 123}, 'getBoolean']}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: true}},
@@ -312,10 +361,6 @@ describe('RPCManager', () => {
       {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 0}}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'execute', params: [{type: 'scriptObject', scriptObject: 123}, 'getValidObject']}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 123}}},
-      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 123}]}},
-      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
-      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 123}]}},
-      {type: 'in', payload: {id: outgoingCounter.response(), result: ['getBoolean', 'getNumber', 'getString', 'getEmptyValue', 'getInvalidObject', 'getValidObject']}},
     ]);
     const rootObject = await rpcManager.initialize('valid token');
     await expect(rootObject.getBoolean()).to.eventually.equal(true);
@@ -323,20 +368,13 @@ describe('RPCManager', () => {
     await expect(rootObject.getString()).to.eventually.equal('Hello');
     await expect(rootObject.getEmptyValue()).to.eventually.equal(undefined);
     await expect(rootObject.getInvalidObject()).to.eventually.equal(null);
-    await expect(rootObject.getValidObject()).to.eventually.have.keys(
-      'getBoolean',
-      'getNumber',
-      'getString',
-      'getEmptyValue',
-      'getInvalidObject',
-      'getValidObject',
-    );
+    await expect(rootObject.getValidObject()).to.eventually.equal(rootObject);
     await finishedPromise;
   });
 
   it('calls non-global callbacks', async () => {
     let hasBeenCalled = false;
-    const rpcManager = new RPCManager({});
+    const rpcManager = new RPCManager({}, {loadConstants: false});
     const incomingCounter = setupIdCounter(1000);
     const outgoingCounter = setupIdCounter();
     const finishedPromise = setupTest(rpcManager, [
@@ -345,8 +383,8 @@ describe('RPCManager', () => {
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'getRootObject'}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 123}}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 123}]}},
-      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: ['foo']}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'execute', params: [
         {type: 'scriptObject', scriptObject: 123},
@@ -367,7 +405,7 @@ describe('RPCManager', () => {
 
   it('forgets non-global callbacks', async () => {
     let hasBeenCalled = false;
-    const rpcManager = new RPCManager({});
+    const rpcManager = new RPCManager({}, {loadConstants: false});
     const incomingCounter = setupIdCounter(1000);
     const outgoingCounter = setupIdCounter();
     const finishedPromise = setupTest(rpcManager, [
@@ -376,8 +414,8 @@ describe('RPCManager', () => {
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'getRootObject'}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 123}}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 123}]}},
-      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
       {type: 'in', payload: {id: outgoingCounter.response(), result: ['foo']}},
       {type: 'out', payload: {id: outgoingCounter.request(), method: 'execute', params: [
         {type: 'scriptObject', scriptObject: 123},
@@ -399,4 +437,682 @@ describe('RPCManager', () => {
     expect(hasBeenCalled).to.be.false;
     await finishedPromise;
   });
+
+  it('rejects requests that time out', async () => {
+    const rpcManager = new RPCManager({}, {requestTimeout: 10});
+    const outgoingCounter = setupIdCounter();
+    const finishedPromise = setupTest(rpcManager, [
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'authenticate', params: ['valid token']}},
+    ]);
+    await expect(rpcManager.initialize('valid token')).to.eventually.be.rejectedWith(RequestTimeoutError);
+    await finishedPromise;
+  });
+
+  it('applies per-request options', async () => {
+    const rpcManager = new RPCManager({}, {loadConstants: false});
+    const outgoingCounter = setupIdCounter();
+    const finishedPromise = setupTest(rpcManager, [
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'authenticate', params: ['valid token']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: true}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'getRootObject'}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 123}}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: ['foo']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: ['bar']}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'get', params: [{type: 'scriptObject', scriptObject: 123}, 'foo']}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'execute', params: [{type: 'scriptObject', scriptObject: 123}, 'bar', 42]}},
+    ]);
+    const rootObject = await rpcManager.initialize('valid token');
+    const abortController = new AbortController();
+    const timedOutRequest = expect(rpcManager.get(rootObject, 'foo', {timeout: 10})).to.eventually.be.rejectedWith(RequestTimeoutError);
+    const abortedRequest = expect(rpcManager.call(rootObject, 'bar', [42], {signal: abortController.signal})).to.eventually.be.rejectedWith(RequestAbortedError);
+    abortController.abort();
+    await timedOutRequest;
+    await abortedRequest;
+    await finishedPromise;
+  });
+
+  it('rejects pending requests', async () => {
+    const rpcManager = new RPCManager({});
+    const outgoingCounter = setupIdCounter();
+    const finishedPromise = setupTest(rpcManager, [
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'authenticate', params: ['valid token']}},
+    ]);
+    const initialization = expect(rpcManager.initialize('valid token')).to.eventually.be.rejectedWith(TransportClosedError);
+    await finishedPromise;
+    rpcManager.rejectPendingRequests();
+    expect(await initialization).to.include({requestId: 1, method: 'authenticate'});
+  });
+
+  it('rejects with errors describing the request', async () => {
+    const rpcManager = new RPCManager({}, {loadConstants: false});
+    const outgoingCounter = setupIdCounter();
+    const finishedPromise = setupTest(rpcManager, [
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'authenticate', params: ['valid token']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: true}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'getRootObject'}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 123}}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: ['foo']}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'execute', params: [{type: 'scriptObject', scriptObject: 123}, 'foo']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), error: {
+        code: -32602,
+        message: 'Invalid params.',
+        data: 'foo',
+      }}},
+    ]);
+    const rootObject = await rpcManager.initialize('valid token');
+    const error = await expect(rootObject.foo()).to.eventually.be.rejectedWith(RemoteError);
+    expect(error).to.include({
+      code: -32602,
+      message: 'Invalid params.',
+      data: 'foo',
+      requestId: 5,
+      method: 'execute',
+      targetId: 123,
+      memberName: 'foo',
+    });
+    await expect(rpcManager.get({}, 'foo')).to.eventually.be.rejectedWith(UnknownScriptObjectError);
+    await finishedPromise;
+  });
+
+  it('reuses script objects', async () => {
+    const rpcManager = new RPCManager({}, {loadConstants: false});
+    const outgoingCounter = setupIdCounter();
+    const finishedPromise = setupTest(rpcManager, [
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'authenticate', params: ['valid token']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: true}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'getRootObject'}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 123}}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: ['foo']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'get', params: [{type: 'scriptObject', scriptObject: 123}, 'foo']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 456}}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 456}]}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 456}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: ['bar']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'get', params: [{type: 'scriptObject', scriptObject: 123}, 'foo']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 456}}},
+    ]);
+    const rootObject = await rpcManager.initialize('valid token');
+    const foo1 = await rootObject.foo;
+    const foo2 = await rootObject.foo;
+    expect(foo1).to.equal(foo2);
+    expect('bar' in foo1).to.be.true;
+    await finishedPromise;
+  });
+
+  it('caches descriptions by origin', async () => {
+    const rpcManager = new RPCManager({}, {cacheDescriptions: true, loadConstants: false});
+    const outgoingCounter = setupIdCounter();
+    const finishedPromise = setupTest(rpcManager, [
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'authenticate', params: ['valid token']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: true}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'getRootObject'}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 123}}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 123}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: ['foo']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'get', params: [{type: 'scriptObject', scriptObject: 123}, 'foo']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 456}}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 456}]}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 456}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: ['bar']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'get', params: [{type: 'scriptObject', scriptObject: 123}, 'foo']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 789}}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'get', params: [{type: 'scriptObject', scriptObject: 123}, 'foo']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: {type: 'scriptObject', scriptObject: 790}}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listProperties', params: [{type: 'scriptObject', scriptObject: 790}]}},
+      {type: 'out', payload: {id: outgoingCounter.request(), method: 'listMethods', params: [{type: 'scriptObject', scriptObject: 790}]}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: ['baz']}},
+      {type: 'in', payload: {id: outgoingCounter.response(), result: []}},
+    ]);
+    const rootObject = await rpcManager.initialize('valid token');
+    const foo1 = await rootObject.foo;
+    const foo2 = await rootObject.foo;
+    expect(foo1).to.not.equal(foo2);
+    expect('bar' in foo2).to.be.true;
+    rpcManager.invalidateDescriptions('foo');
+    const foo3 = await rootObject.foo;
+    expect('baz' in foo3).to.be.true;
+    await finishedPromise;
+  });
+});
+
+describe('RPCManager promise methods', () => {
+  const root = {
+    constants: {EAPI_ERROR_OK: 0, EAPI_ERROR_FAIL: 1},
+    succeed(value: string, callback: Function) {
+      callback(0, value.toUpperCase());
+    },
+    succeedLater(callback: Function) {
+      setTimeout(() => callback(0, {name: 'item'}), 10);
+    },
+    fail(callback: Function) {
+      callback(1);
+    },
+    refuse() {
+      return 1;
+    },
+    ignore() {},
+  };
+  let rpcManager: RPCManager;
+  let connectionManager: ConnectionManager;
+  let rootObject: any;
+
+  beforeEach(async () => {
+    const server = new MockServer({root});
+    rpcManager = new RPCManager({}, {promiseMethods: true, callbackTimeout: 50});
+    connectionManager = new ConnectionManager(rpcManager, {transport: server.createTransport()});
+    await connectionManager.openConnection();
+    rootObject = await rpcManager.initialize('valid token');
+  });
+
+  afterEach(() => connectionManager.closeConnection());
+
+  it('resolves with the callback arguments', async () => {
+    expect(await rootObject.succeed.promise('foo')).to.deep.equal([0, 'FOO']);
+    const [, item] = await rootObject.succeedLater.promise();
+    expect(await item.name).to.equal('item');
+  });
+
+  it('rejects on failure', async () => {
+    await expect(rootObject.fail.promise()).to.be.rejectedWith(ResultError, 'Method "fail" failed - result: 1 (EAPI_ERROR_FAIL)')
+      .and.eventually.include({result: 1, resultName: 'EAPI_ERROR_FAIL', memberName: 'fail'});
+    await expect(rootObject.refuse.promise()).to.be.rejectedWith(ResultError, 'Method "refuse" failed - result: 1 (EAPI_ERROR_FAIL)');
+    await expect(rootObject.ignore.promise()).to.be.rejectedWith(RequestTimeoutError);
+  });
+
+  it('rejects without the constants', async () => {
+    const managerWithoutConstants = new RPCManager({}, {promiseMethods: true, loadConstants: false});
+    const otherConnectionManager = new ConnectionManager(managerWithoutConstants, {transport: new MockServer({root}).createTransport()});
+    await otherConnectionManager.openConnection();
+    const otherRootObject: any = await managerWithoutConstants.initialize('valid token');
+    await expect(otherRootObject.succeed.promise('foo')).to.be.rejectedWith('loadConstants');
+    otherConnectionManager.closeConnection();
+  });
+});
+
+describe('RPCManager constants', () => {
+  it('provides the constants after the initialization', async () => {
+    const rpcManager = new RPCManager();
+    const connectionManager = new ConnectionManager(rpcManager, {transport: new MockServer({root: new MockPhone().root}).createTransport()});
+    await connectionManager.openConnection();
+    expect(() => rpcManager.constants).to.throw('The constants are available once the manager is initialized');
+    await rpcManager.initialize('valid token');
+    expect(rpcManager.constants).to.deep.equal(MOCK_CONSTANTS);
+    expect(Object.isFrozen(rpcManager.constants)).to.be.true;
+    expect(rpcManager.getConstantName(1)).to.equal('EAPI_ERROR_FAIL');
+    expect(rpcManager.getConstantName(1, 'EORIGIN_')).to.equal('EORIGIN_LOCAL');
+    expect(rpcManager.getConstantName(42)).to.be.undefined;
+    connectionManager.closeConnection();
+  });
+
+  it('loads the constants before registering the global callbacks', async () => {
+    const results: number[] = [];
+    const rpcManager = new RPCManager({phone: () => results.push((rpcManager.constants as Record<string, number>).EAPI_ERROR_OK)});
+    const root = {
+      constants: {EAPI_ERROR_OK: 0},
+      registerCallback(name: string, callback: Function) {
+        callback('ready');
+      },
+    };
+    const connectionManager = new ConnectionManager(rpcManager, {transport: new MockServer({root}).createTransport()});
+    await connectionManager.openConnection();
+    await rpcManager.initialize('valid token');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(results).to.deep.equal([0]);
+    connectionManager.closeConnection();
+  });
+
+  it('stays uninitialized when loading the constants fails', async () => {
+    const rpcManager = new RPCManager();
+    const root = {
+      get constants(): object {
+        throw new Error('Unavailable');
+      },
+    };
+    const connectionManager = new ConnectionManager(rpcManager, {transport: new MockServer({root}).createTransport()});
+    await connectionManager.openConnection();
+    await expect(rpcManager.initialize('valid token')).to.be.rejectedWith(RemoteError);
+    expect(rpcManager.isInitialized).to.be.false;
+    connectionManager.closeConnection();
+  });
+});
+
+describe('RPCManager expected members', () => {
+  it('reports missing members on initialization', async () => {
+    const rpcManager = new RPCManager({}, {
+      expectedMembers: ['versionPhone', 'dial', 'optionsGeneral.recordCalls', 'optionsGeneral.autoAnswer', 'activeCall.hangup'],
+    });
+    const missingPaths: string[][] = [];
+    rpcManager.onMissingMembers = (paths) => missingPaths.push(paths);
+    const connectionManager = new ConnectionManager(rpcManager, {transport: new MockServer({root: new MockPhone().root}).createTransport()});
+    await connectionManager.openConnection();
+    await rpcManager.initialize('valid token');
+    connectionManager.closeConnection();
+    // `activeCall` is `null` without a call, so its members are skipped
+    expect(missingPaths).to.deep.equal([['dial', 'optionsGeneral.autoAnswer']]);
+  });
+
+  it('requires a listener', async () => {
+    const rpcManager = new RPCManager({}, {expectedMembers: ['optionsGeneral.autoAnswer']});
+    const methods: string[] = [];
+    rpcManager.use({onOutgoingMessage: (message) => {
+      methods.push(message.method!);
+    }});
+    const connectionManager = new ConnectionManager(rpcManager, {transport: new MockServer({root: new MockPhone().root}).createTransport()});
+    await connectionManager.openConnection();
+    await expect(rpcManager.initialize('valid token')).to.be.rejectedWith('onMissingMembers');
+    connectionManager.closeConnection();
+    expect(methods).to.be.empty;
+  });
+});
+
+describe('RPCManager events', () => {
+  let phone: MockPhone;
+  let rpcManager: RPCManager;
+  let connectionManager: ConnectionManager;
+
+  const nextTick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+  beforeEach(async () => {
+    phone = new MockPhone();
+    rpcManager = new RPCManager();
+    connectionManager = new ConnectionManager(rpcManager, {transport: new MockServer({root: phone.root}).createTransport()});
+    await connectionManager.openConnection();
+  });
+
+  afterEach(() => connectionManager.closeConnection());
+
+  it('invokes the listeners', async () => {
+    const events: string[] = [];
+    const listener = (call: unknown, event: string) => events.push(`listener ${event}`);
+    rpcManager.on('call', listener);
+    rpcManager.once('call', (call: unknown, event: string) => events.push(`once ${event}`));
+    await rpcManager.initialize('valid token');
+    const call = phone.simulateIncomingCall('1001');
+    await nextTick();
+    rpcManager.off('call', listener);
+    rpcManager.on('phone', (event: string) => events.push(event));
+    phone.simulateRemoteHangup(call);
+    await nextTick();
+    await phone.emit('phone', 'late');
+    expect(events).to.deep.equal(['listener incoming', 'once incoming', 'late']);
+  });
+
+  it('isolates listener errors', async () => {
+    const events: string[] = [];
+    const errors: unknown[] = [];
+    rpcManager.onCallbackError = (error, name, args) => errors.push([name, (error as Error).message, args![1]]);
+    rpcManager.on('call', () => {
+      throw new Error('failed');
+    });
+    rpcManager.on('call', (call: unknown, event: string) => events.push(event));
+    await rpcManager.initialize('valid token');
+    phone.simulateIncomingCall('1001');
+    await nextTick();
+    expect(events).to.deep.equal(['incoming']);
+    expect(errors).to.deep.equal([['call', 'failed', 'incoming']]);
+  });
+
+  it('iterates over events', async () => {
+    await rpcManager.initialize('valid token');
+    const abortController = new AbortController();
+    const events: string[] = [];
+    const iteration = (async () => {
+      for await (const [, event] of rpcManager.events('call', {signal: abortController.signal})) {
+        events.push(event);
+      }
+    })();
+    await nextTick();
+    const call = phone.simulateIncomingCall('1001');
+    phone.simulateRemoteHangup(call);
+    await nextTick();
+    abortController.abort();
+    await iteration;
+    phone.simulateIncomingCall('1002');
+    await nextTick();
+    expect(events).to.deep.equal(['incoming', 'hangup']);
+  });
+});
+
+describe('RPCManager metrics', () => {
+  it('measures requests and callbacks', async () => {
+    const phone = new MockPhone();
+    const rpcManager = new RPCManager({phone: () => {}});
+    const connectionManager = new ConnectionManager(rpcManager, {transport: new MockServer({root: phone.root}).createTransport()});
+    await connectionManager.openConnection();
+    await expect(rpcManager.ping()).to.be.rejectedWith('The manager needs to be initialized first');
+    const zoiperAPI = await rpcManager.initialize('valid token');
+    const {latency: {count}} = rpcManager.getMetrics();
+    const versionPhone = zoiperAPI.versionPhone;
+    expect(rpcManager.getMetrics().inFlightRequestCount).to.equal(1);
+    await versionPhone;
+    await Promise.all([phone.emit('phone', 'first'), phone.emit('phone', 'second')]);
+    expect(await rpcManager.ping()).to.be.a('number');
+    const metrics = rpcManager.getMetrics();
+    expect(metrics.latency.count).to.equal(count + 2);
+    expect(metrics.latency.p50).to.be.at.most(metrics.latency.p99);
+    expect(metrics.latency.p99).to.be.at.most(metrics.latency.max);
+    expect(metrics).to.include({inFlightRequestCount: 0, callbacksPerSecond: 0.2});
+    connectionManager.closeConnection();
+  });
+
+  it('counts error responses to heartbeats as responses', async () => {
+    const rpcManager = new RPCManager({}, {loadConstants: false});
+    const connectionManager = new ConnectionManager(rpcManager, {transport: new MockServer({root: {}}).createTransport()});
+    await connectionManager.openConnection();
+    await rpcManager.initialize('valid token');
+    expect(await rpcManager.ping()).to.be.a('number');
+    connectionManager.closeConnection();
+  });
+});
+
+describe('RPCManager callback dispatch', () => {
+  const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  async function connect(phone: MockPhone, globalCallbacksMap: Record<string, Function>, callbackDispatch: CallbackDispatchOptions) {
+    const rpcManager = new RPCManager(globalCallbacksMap, {callbackDispatch});
+    const connectionManager = new ConnectionManager(rpcManager, {transport: new MockServer({root: phone.root}).createTransport()});
+    await connectionManager.openConnection();
+    const zoiperAPI = await rpcManager.initialize('valid token');
+
+    return {rpcManager, connectionManager, zoiperAPI};
+  }
+
+  it('orders the invocations per callback', async () => {
+    const phone = new MockPhone();
+    const events: string[] = [];
+    const {connectionManager} = await connect(phone, {
+      phone: async (event: string) => {
+        await delay(event === 'first' ? 20 : 0);
+        events.push(event);
+      },
+    }, {order: 'callback'});
+    await Promise.all([phone.emit('phone', 'first'), phone.emit('phone', 'second')]);
+    expect(events).to.deep.equal(['first', 'second']);
+    connectionManager.closeConnection();
+  });
+
+  it('orders the invocations per target', async () => {
+    const phone = new MockPhone();
+    const events: string[] = [];
+    const [firstCall, secondCall] = [{phone: '1001'}, {phone: '1002'}];
+    const {connectionManager} = await connect(phone, {
+      call: async (call: {phone: Promise<string>}, event: string) => {
+        const number = await call.phone;
+        await delay(number === '1001' && event === 'incoming' ? 20 : 0);
+        events.push(`${number} ${event}`);
+      },
+    }, {order: 'target'});
+    await Promise.all([
+      phone.emit('call', firstCall, 'incoming'),
+      phone.emit('call', secondCall, 'incoming'),
+      phone.emit('call', firstCall, 'hangup'),
+    ]);
+    expect(events).to.deep.equal(['1002 incoming', '1001 incoming', '1001 hangup']);
+    connectionManager.closeConnection();
+  });
+
+  it('limits the concurrency', async () => {
+    const phone = new MockPhone();
+    let runningCount = 0;
+    let maxRunningCount = 0;
+    const {connectionManager} = await connect(phone, {
+      phone: async () => {
+        runningCount += 1;
+        maxRunningCount = Math.max(maxRunningCount, runningCount);
+        await delay(5);
+        runningCount -= 1;
+      },
+    }, {concurrency: 2});
+    await Promise.all(['first', 'second', 'third', 'fourth'].map((event) => phone.emit('phone', event)));
+    expect(maxRunningCount).to.equal(2);
+    connectionManager.closeConnection();
+  });
+
+  it('invokes callbacks passed to methods right away', async () => {
+    const phone = new MockPhone();
+    const counts: number[] = [];
+    const {rpcManager, connectionManager, zoiperAPI} = await connect(phone, {
+      // Lists the calls via `itemAt` callbacks, while the invocations of the global callback are queued
+      call: async () => counts.push((await rpcManager.list(zoiperAPI.calls).toArray()).length),
+    }, {order: 'all', concurrency: 1});
+    phone.simulateIncomingCall('1001');
+    phone.simulateIncomingCall('1002');
+    await delay(50);
+    expect(counts).to.deep.equal([2, 2]);
+    connectionManager.closeConnection();
+  });
+});
+
+describe('RPCManager lifetime', () => {
+  let storedCallback: Function | undefined;
+  const root = {
+    optionsGeneral: {recordCalls: false},
+    store(callback: Function) {
+      storedCallback = callback;
+    },
+    fire() {
+      return storedCallback!('fired');
+    },
+  };
+  let rpcManager: RPCManager;
+  let connectionManager: ConnectionManager;
+  let rootObject: any;
+
+  const setup = async (options = {}) => {
+    rpcManager = new RPCManager({}, {loadConstants: false, ...options});
+    connectionManager = new ConnectionManager(rpcManager, {transport: new MockServer({root}).createTransport()});
+    await connectionManager.openConnection();
+    rootObject = await rpcManager.initialize('valid token');
+  };
+
+  afterEach(() => connectionManager.closeConnection());
+
+  it('releases objects', async () => {
+    await setup();
+    const optionsGeneral = await rootObject.optionsGeneral;
+    expect(rpcManager.getDiagnostics().scriptObjectIds).to.have.lengthOf(2);
+    rpcManager.release(optionsGeneral);
+    await expect(optionsGeneral.recordCalls).to.be.rejectedWith(ReleasedScriptObjectError);
+    expect(() => rpcManager.release(rootObject)).to.throw();
+    expect(rpcManager.getDiagnostics().scriptObjectIds).to.have.lengthOf(1);
+    const newOptionsGeneral = await rootObject.optionsGeneral;
+    expect(newOptionsGeneral).not.to.equal(optionsGeneral);
+    expect(await newOptionsGeneral.recordCalls).to.be.false;
+    rpcManager.releaseAll();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(rpcManager.getDiagnostics().scriptObjectIds).to.have.lengthOf(1);
+  });
+
+  it('retains callbacks', async () => {
+    await setup();
+    const events: string[] = [];
+    const callback = (event: string) => events.push(event);
+    await rootObject.store(callback);
+    await expect(rootObject.fire()).to.be.rejectedWith(RemoteError);
+    await rootObject.store(rpcManager.retainCallback(callback));
+    await rootObject.fire();
+    expect(rpcManager.getDiagnostics().callbackIds).to.have.lengthOf(1);
+    rpcManager.release(callback);
+    await expect(rootObject.fire()).to.be.rejectedWith(RemoteError);
+    expect(events).to.deep.equal(['fired']);
+    expect(rpcManager.getDiagnostics().callbackIds).to.be.empty;
+  });
+
+  it('keeps reusing weakly referenced objects', async () => {
+    await setup({autoRelease: true});
+    const optionsGeneral = await rootObject.optionsGeneral;
+    expect(await rootObject.optionsGeneral).to.equal(optionsGeneral);
+    expect(rpcManager.getDiagnostics().scriptObjectIds).to.have.lengthOf(2);
+  });
+});
+
+describe('RPCManager batching', () => {
+  function createTransport(server: MockServer, sentMessages: string[], rejectBatches: boolean = false) {
+    return new LoopbackTransport((endpoint) => {
+      const serverEndpoint: LoopbackEndpoint = {
+        send: (message) => endpoint.send(message),
+        close: () => endpoint.close(),
+      };
+      server.accept(serverEndpoint);
+      endpoint.onMessage = (message) => {
+        sentMessages.push(message);
+
+        if (rejectBatches && message.startsWith('[')) {
+          endpoint.send(JSON.stringify({jsonrpc: '2.0', id: null, error: {code: -32600, message: 'Invalid Request'}}));
+        } else {
+          serverEndpoint.onMessage!(message);
+        }
+      };
+      endpoint.onClose = (event) => serverEndpoint.onClose?.(event);
+    });
+  }
+
+  const root = {versionPhone: '5.1.0', versionBuild: 123, isReady: true};
+
+  it('reads properties', async () => {
+    const sentMessages: string[] = [];
+    const rpcManager = new RPCManager({}, {batchRequests: true, loadConstants: false});
+    const connectionManager = new ConnectionManager(rpcManager, {transport: createTransport(new MockServer({root}), sentMessages)});
+    await connectionManager.openConnection();
+    const rootObject = await rpcManager.initialize('valid token');
+    const values = await rpcManager.read(rootObject, ['versionPhone', 'versionBuild', 'isReady']);
+    expect(values).to.deep.equal({versionPhone: '5.1.0', versionBuild: 123, isReady: true});
+    expect(sentMessages.map((message) => JSON.parse(message)).map((message) => {
+      return Array.isArray(message) ? message.map(({method}) => method) : message.method;
+    })).to.deep.equal(['authenticate', 'getRootObject', ['listProperties', 'listMethods'], ['get', 'get', 'get']]);
+    connectionManager.closeConnection();
+  });
+
+  it('falls back to single requests', async () => {
+    const sentMessages: string[] = [];
+    const rpcManager = new RPCManager({}, {batchRequests: true, loadConstants: false});
+    const connectionManager = new ConnectionManager(rpcManager, {
+      transport: createTransport(new MockServer({root}), sentMessages, true),
+    });
+    await connectionManager.openConnection();
+    const rootObject = await rpcManager.initialize('valid token');
+    const values = await rpcManager.read(rootObject, ['versionPhone', 'versionBuild']);
+    expect(values).to.deep.equal({versionPhone: '5.1.0', versionBuild: 123});
+    expect(sentMessages.filter((message) => message.startsWith('['))).to.have.lengthOf(1);
+    expect(sentMessages).to.have.lengthOf(7);
+    connectionManager.closeConnection();
+  });
+});
+
+describe('RPCManager access policy', () => {
+  async function connect(accessPolicy: AccessPolicy, phone: MockPhone = new MockPhone()) {
+    const sentMessages: JSONRPCMessage[] = [];
+    const rpcManager = new RPCManager({call: () => {}}, {accessPolicy});
+    const connectionManager = new ConnectionManager(rpcManager, {transport: new MockServer({root: phone.root}).createTransport()});
+    await connectionManager.openConnection();
+    const zoiperAPI = await rpcManager.initialize('valid token');
+    rpcManager.use({onOutgoingMessage: (message) => void sentMessages.push(message)});
+
+    return {rpcManager, connectionManager, zoiperAPI, sentMessages};
+  }
+
+  it('denies members without sending requests', async () => {
+    const phone = new MockPhone();
+    const {rpcManager, connectionManager, zoiperAPI, sentMessages} = await connect({
+      allow: ['versionPhone', 'optionsGeneral', 'optionsGeneral.*'],
+      deny: ['optionsGeneral.apply'],
+      readOnly: true,
+    }, phone);
+    expect(rpcManager.constants).to.deep.equal(MOCK_CONSTANTS);
+    expect(await zoiperAPI.versionPhone).to.equal('5.0.0-mock');
+    const optionsGeneral = await zoiperAPI.optionsGeneral;
+    expect(await optionsGeneral.recordCalls).to.equal(false);
+    const messageCount = sentMessages.length;
+    await expect(zoiperAPI.activeCall).to.be.rejectedWith(AccessDeniedError, 'Access to "activeCall" was denied - the member is not allowed by the access policy');
+    await expect(rpcManager.set(optionsGeneral, 'recordCalls', true)).to.be.rejectedWith(AccessDeniedError, 'the access policy is read-only');
+    await expect(optionsGeneral.apply()).to.be.rejectedWith(AccessDeniedError, 'the access policy is read-only');
+    await expect(rpcManager.call(zoiperAPI, 'saveOptions')).to.be.rejectedWith(AccessDeniedError).and.eventually.include({
+      path: 'saveOptions',
+      method: 'execute',
+      memberName: 'saveOptions',
+    });
+    expect(sentMessages).to.have.lengthOf(messageCount);
+    expect((phone.root as any).optionsGeneral.recordCalls).to.equal(false);
+    connectionManager.closeConnection();
+  });
+
+  it('restricts methods and asks for confirmation', async () => {
+    const accesses: MemberAccess[] = [];
+    const {rpcManager, connectionManager, zoiperAPI} = await connect({
+      methods: ['createCall', '@call[0].hangup'],
+      confirm: async (access) => {
+        accesses.push(access);
+
+        return access.args[0] !== '900';
+      },
+    });
+    await expect(zoiperAPI.createCall('900', false, '')).to.be.rejectedWith(AccessDeniedError, 'the access was not confirmed');
+    const callEvent = new Promise<any[]>((resolve) => rpcManager.once('call', (...args: any[]) => resolve(args)));
+    expect(await zoiperAPI.createCall('1001', false, '')).to.equal(MOCK_CONSTANTS.EAPI_ERROR_OK);
+    const [call] = await callEvent;
+    await expect(call.hold(true)).to.be.rejectedWith(AccessDeniedError, 'Access to "@call[0].hold" was denied - the method is not allowed');
+    expect(await call.hangup()).to.equal(MOCK_CONSTANTS.EAPI_ERROR_OK);
+    expect(accesses.map(({type, path, args}) => [type, path, args])).to.deep.equal([
+      ['call', 'createCall', ['900', false, '']],
+      ['call', 'createCall', ['1001', false, '']],
+      ['call', '@call[0].hangup', []],
+    ]);
+    connectionManager.closeConnection();
+  });
+
+  it('denies plain assignments right away', async () => {
+    const unhandledRejections: unknown[] = [];
+    const onUnhandledRejection = (reason: unknown) => unhandledRejections.push(reason);
+    const phone = new MockPhone();
+    const readOnlyClient = await connect({readOnly: true}, phone);
+    const confirmingClient = await connect({confirm: () => false}, phone);
+    process.on('unhandledRejection', onUnhandledRejection);
+    const readOnlyOptions = await readOnlyClient.zoiperAPI.optionsGeneral;
+    expect(() => readOnlyOptions.recordCalls = true).to.throw(AccessDeniedError, 'the access policy is read-only');
+    (await confirmingClient.zoiperAPI.optionsGeneral).recordCalls = true;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    process.off('unhandledRejection', onUnhandledRejection);
+    expect(unhandledRejections).to.be.empty;
+    expect((phone.root as any).optionsGeneral.recordCalls).to.equal(false);
+    readOnlyClient.connectionManager.closeConnection();
+    confirmingClient.connectionManager.closeConnection();
+  });
+
+  it('checks objects obtained in several ways under none of their paths', async () => {
+    const allow = ['activeCall', 'activeCall.*', 'calls', 'calls.count', 'calls.itemAt'];
+
+    for (const order of ['active call first', 'list item first']) {
+      const phone = new MockPhone();
+      phone.activeCall = phone.simulateIncomingCall('1002');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const {rpcManager, connectionManager, zoiperAPI} = await connect({allow}, phone);
+      const getListItem = () => rpcManager.list(zoiperAPI.calls).itemAt(0);
+
+      if (order === 'active call first') {
+        const activeCall = await zoiperAPI.activeCall;
+        expect(await activeCall.phone).to.equal('1002');
+        expect(await getListItem()).to.equal(activeCall);
+      } else {
+        const listItem = await getListItem();
+        await expect(listItem.phone).to.be.rejectedWith(AccessDeniedError, 'Access to "calls.itemAt(1)[1].phone" was denied');
+        expect(await zoiperAPI.activeCall).to.equal(listItem);
+      }
+
+      const call = await zoiperAPI.activeCall;
+      await expect(call.phone).to.be.rejectedWith(AccessDeniedError, 'Access to "phone" was denied').and.eventually.include({path: undefined});
+      connectionManager.closeConnection();
+    }
+  });
 });
@@ -0,0 +1,43 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {ConnectionManager} from '../src/connection-manager';
+import {describeObject} from '../src/describe-object';
+import {RPCManager} from '../src/rpc-manager';
+import {ScriptObjectRegistry, ServerSession} from '../src/server-session';
+import {LoopbackTransport} from '../src/transports/loopback-transport';
+
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+describe('ServerSession', () => {
+  it('forgets the callbacks used least recently', async () => {
+    const root = {
+      itemAt(index: number, callback: Function) {
+        return callback(0, index);
+      },
+    };
+    let session: ServerSession;
+    const transport = new LoopbackTransport((endpoint) => {
+      session = new ServerSession(endpoint, {root, registry: new ScriptObjectRegistry(3), describe: describeObject});
+      session.on('execute', async (serializedTarget: unknown, methodName: string, ...args: unknown[]) => {
+        const target = session.resolveTarget(serializedTarget) as Record<string, Function>;
+
+        return session.serialize(await target[methodName](...args.map((arg) => session.deserialize(arg))));
+      });
+    });
+    const rpcManager = new RPCManager({}, {loadConstants: false});
+    const connectionManager = new ConnectionManager(rpcManager, {transport});
+    await connectionManager.openConnection();
+    const rootObject: any = await rpcManager.initialize('valid token');
+    const items: unknown[] = [];
+
+    for (let index = 0; index < 10; index++) {
+      await rootObject.itemAt(index, (result: number, item: unknown) => items.push(item));
+    }
+
+    expect(items).to.deep.equal([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(session!.callbackCount).to.equal(3);
+    connectionManager.closeConnection();
+  });
+});
@@ -0,0 +1,87 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {ConnectionManager} from '../src/connection-manager';
+import {RemoteError} from '../src/errors';
+import {RPCManager} from '../src/rpc-manager';
+import {StateStore, WatchedValues} from '../src/state-store';
+import {MockPhone} from '../src/testing/mock-phone';
+import {openMockSession} from './helpers/mock-session';
+
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+describe('StateStore', () => {
+  let phone: MockPhone;
+  let rpcManager: RPCManager;
+  let connectionManager: ConnectionManager;
+  let zoiperAPI: any;
+
+  function waitForSnapshot<W extends WatchedValues<any>>(store: StateStore<any, W>, predicate: (snapshot: any) => boolean) {
+    return new Promise<any>((resolve) => {
+      const unsubscribe = store.subscribe(() => {
+        if (predicate(store.getSnapshot())) {
+          unsubscribe();
+          resolve(store.getSnapshot());
+        }
+      });
+    });
+  }
+
+  beforeEach(async () => {
+    ({phone, rpcManager, connectionManager, zoiperAPI} = await openMockSession());
+  });
+
+  afterEach(() => connectionManager.closeConnection());
+
+  it('refreshes values after callbacks', async () => {
+    const store = new StateStore(rpcManager, zoiperAPI, {
+      callCount: {read: async (api) => (await api.calls).count, refreshOn: ['call']},
+      recordCalls: {
+        read: async (api) => (await api.optionsGeneral).recordCalls,
+        refreshOn: ['phone'],
+        shouldRefresh: (name, [event]) => event === 'options_save',
+      },
+    });
+    const initialSnapshot = store.getSnapshot();
+    expect(initialSnapshot).to.deep.equal({callCount: undefined, recordCalls: undefined});
+    await store.start();
+    const startedSnapshot = store.getSnapshot();
+    expect(startedSnapshot).to.deep.equal({callCount: 0, recordCalls: false});
+
+    phone.simulateIncomingCall('1001');
+    expect(await waitForSnapshot(store, ({callCount}) => callCount === 1)).to.deep.equal({callCount: 1, recordCalls: false});
+
+    await rpcManager.set(await zoiperAPI.optionsGeneral, 'recordCalls', true);
+    await zoiperAPI.saveOptions();
+    expect(await waitForSnapshot(store, ({recordCalls}) => recordCalls)).to.deep.equal({callCount: 1, recordCalls: true});
+    expect(startedSnapshot).to.deep.equal({callCount: 0, recordCalls: false});
+    expect(Object.isFrozen(store.getSnapshot())).to.be.true;
+    store.stop();
+  });
+
+  it('keeps the snapshot when values are unchanged', async () => {
+    const store = new StateStore(rpcManager, zoiperAPI, {
+      versionPhone: {read: (api) => api.versionPhone},
+    });
+    let changeCount = 0;
+    store.subscribe(() => changeCount += 1);
+    await store.start();
+    const snapshot = store.getSnapshot();
+    await store.refresh('versionPhone');
+    expect(store.getSnapshot()).to.equal(snapshot);
+    expect(changeCount).to.equal(1);
+  });
+
+  it('reports failed reads', async () => {
+    const store = new StateStore(rpcManager, zoiperAPI, {
+      missing: {read: (api) => rpcManager.get(api, 'missing')},
+    });
+    await expect(store.start()).to.be.rejectedWith(RemoteError);
+    const errors: string[] = [];
+    store.onError = (error, key) => errors.push(key);
+    await store.refresh();
+    expect(errors).to.deep.equal(['missing']);
+    expect(store.getSnapshot()).to.deep.equal({missing: undefined});
+  });
+});
@@ -0,0 +1,209 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {ConnectionManager} from '../src/connection-manager';
+import {JSONRPCMessage} from '../src/interceptors/interceptor';
+import {TraceEntry, Tracer} from '../src/interceptors/tracer';
+import {RPCManager} from '../src/rpc-manager';
+import {MOCK_CONSTANTS, MockPhone} from '../src/testing/mock-phone';
+import {MockServer} from '../src/testing/mock-server';
+
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+async function setup(rpcManager: RPCManager) {
+  const connectionManager = new ConnectionManager(rpcManager, {
+    transport: new MockServer({root: new MockPhone({versionPhone: '5.1.0'}).root}).createTransport(),
+  });
+  await connectionManager.openConnection();
+
+  return connectionManager;
+}
+
+describe('RPCManager.use', () => {
+  it('passes messages through the interceptors', async () => {
+    const rpcManager = new RPCManager();
+    const methods: string[] = [];
+    const removeInterceptor = rpcManager.use({
+      onOutgoingMessage(message) {
+        methods.push(message.method!);
+      },
+      onIncomingMessage(message: JSONRPCMessage) {
+        return message.result === '5.1.0' ? {...message, result: 'intercepted'} : undefined;
+      },
+    });
+    const connectionManager = await setup(rpcManager);
+    const zoiperAPI: any = await rpcManager.initialize('valid token');
+    expect(await zoiperAPI.versionPhone).to.equal('intercepted');
+    removeInterceptor();
+    expect(await zoiperAPI.versionPhone).to.equal('5.1.0');
+    expect(methods).to.deep.equal([
+      'authenticate',
+      'getRootObject',
+      'listProperties',
+      'listMethods',
+      // The constants
+      'get',
+      'listProperties',
+      'listMethods',
+      ...Object.keys(MOCK_CONSTANTS).map(() => 'get'),
+      'get',
+    ]);
+    connectionManager.closeConnection();
+  });
+
+  it('passes messages on when an interceptor throws', async () => {
+    const rpcManager = new RPCManager();
+    const errors: string[] = [];
+    rpcManager.onInterceptorError = (error, message) => errors.push(`${message.method ?? 'response'}: ${(error as Error).message}`);
+    rpcManager.use({
+      onOutgoingMessage(message) {
+        if (message.params?.[1] === 'versionPhone') {
+          throw new Error('Outgoing');
+        }
+      },
+      onIncomingMessage(message: JSONRPCMessage) {
+        if (message.result === '5.1.0') {
+          throw new Error('Incoming');
+        }
+      },
+    });
+    const connectionManager = await setup(rpcManager);
+    const zoiperAPI: any = await rpcManager.initialize('valid token');
+    expect(await zoiperAPI.versionPhone).to.equal('5.1.0');
+    expect(errors).to.deep.equal(['get: Outgoing', 'response: Incoming']);
+    expect(connectionManager.state).to.equal('open');
+    connectionManager.closeConnection();
+  });
+});
+
+describe('Tracer', () => {
+  it('traces the traffic', async () => {
+    const rpcManager = new RPCManager({call: () => {}});
+    const lines: string[] = [];
+    const entries: TraceEntry[] = [];
+    const tracer = new Tracer({logger: (line) => lines.push(line)});
+    tracer.onTrace = (entry) => entries.push(entry);
+    rpcManager.use(tracer);
+    const connectionManager = await setup(rpcManager);
+    const zoiperAPI: any = await rpcManager.initialize('secret token');
+    await zoiperAPI.versionPhone;
+    connectionManager.closeConnection();
+    const constantEntries = Object.entries(MOCK_CONSTANTS);
+    const versionRequestId = 9 + constantEntries.length;
+    expect(lines.map((line) => line.replace(/ \d+ms /, ' '))).to.deep.equal([
+      '-> #1 authenticate("[redacted]")',
+      '<- #1 authenticate = true',
+      '-> #2 getRootObject',
+      '<- #2 getRootObject = #1000001',
+      '-> #3 listProperties #1000001',
+      '-> #4 listMethods #1000001',
+      '<- #3 listProperties #1000001 = ["versionPhone","constants","activeCall","calls","accounts","contacts","optionsGeneral","historyService"]',
+      '<- #4 listMethods #1000001 = ["registerCallback","saveOptions","createCall"]',
+      '-> #5 get #1000001.constants',
+      '<- #5 get #1000001.constants = #1000002',
+      '-> #6 listProperties #1000002',
+      '-> #7 listMethods #1000002',
+      `<- #6 listProperties #1000002 = ${JSON.stringify(Object.keys(MOCK_CONSTANTS))}`,
+      '<- #7 listMethods #1000002 = []',
+      ...constantEntries.map(([name], index) => `-> #${8 + index} get #1000002.${name}`),
+      ...constantEntries.map(([name, value], index) => `<- #${8 + index} get #1000002.${name} = ${value}`),
+      `-> #${8 + constantEntries.length} execute #1000001.registerCallback("call", #1)`,
+      `<- #${8 + constantEntries.length} execute #1000001.registerCallback = 0`,
+      `-> #${versionRequestId} get #1000001.versionPhone`,
+      `<- #${versionRequestId} get #1000001.versionPhone = "5.1.0"`,
+    ]);
+    expect(entries.find((entry) => entry.type === 'response' && entry.memberName === 'versionPhone')).to.include({
+      direction: 'incoming',
+      requestId: versionRequestId,
+      method: 'get',
+      result: '5.1.0',
+    });
+    expect(tracer.getLatencyStats()).to.have.all.keys([
+      'authenticate',
+      'getRootObject',
+      'listProperties',
+      'listMethods',
+      'execute registerCallback',
+      'get constants',
+      ...constantEntries.map(([name]) => `get ${name}`),
+      'get versionPhone',
+    ]);
+    expect(tracer.getLatencyStats()['get versionPhone']).to.include({count: 1});
+  });
+
+  it('correlates callbacks with the requests that passed them', () => {
+    const tracer = new Tracer();
+    const entries: TraceEntry[] = [];
+    tracer.onTrace = (entry) => entries.push(entry);
+    tracer.onOutgoingMessage({jsonrpc: '2.0', id: 3, method: 'execute', params: [
+      {type: 'scriptObject', scriptObject: 10},
+      'createCall',
+      '1001',
+      {type: 'scriptObject', scriptObject: 1},
+    ]});
+    tracer.onIncomingMessage({jsonrpc: '2.0', id: 1000, method: 'callback', params: [{type: 'scriptObject', scriptObject: 1}, 0]});
+    tracer.onOutgoingMessage({jsonrpc: '2.0', id: 1000, result: true});
+    expect(entries[1]).to.deep.include({
+      type: 'request',
+      targetId: 1,
+      args: [0],
+      origin: {requestId: 3, method: 'execute', targetId: 10, memberName: 'createCall'},
+    });
+    expect(entries[2]).to.include({direction: 'outgoing', type: 'response', method: 'callback', targetId: 1});
+  });
+
+  it('tells callbacks apart from server objects with the same ID', () => {
+    const tracer = new Tracer();
+    const entries: TraceEntry[] = [];
+    tracer.onTrace = (entry) => entries.push(entry);
+    tracer.onOutgoingMessage({jsonrpc: '2.0', id: 3, method: 'execute', params: [
+      {type: 'scriptObject', scriptObject: 10},
+      'createCall',
+      '1001',
+      {type: 'scriptObject', scriptObject: 1},
+    ]});
+    tracer.onOutgoingMessage({jsonrpc: '2.0', id: 4, method: 'get', params: [{type: 'scriptObject', scriptObject: 10}, 'historyService']});
+    tracer.onIncomingMessage({jsonrpc: '2.0', id: 4, result: {type: 'scriptObject', scriptObject: 1}});
+    tracer.onOutgoingMessage({jsonrpc: '2.0', id: 5, method: 'execute', params: [
+      {type: 'scriptObject', scriptObject: 10},
+      'removeFilter',
+      {type: 'scriptObject', scriptObject: 1},
+    ]});
+    tracer.onIncomingMessage({jsonrpc: '2.0', id: 1000, method: 'callback', params: [{type: 'scriptObject', scriptObject: 1}, 0]});
+    expect(entries[4].origin).to.include({requestId: 3, memberName: 'createCall'});
+  });
+
+  it('correlates callbacks sharing the ID of an earlier server object', () => {
+    const tracer = new Tracer();
+    const entries: TraceEntry[] = [];
+    tracer.onTrace = (entry) => entries.push(entry);
+    tracer.onOutgoingMessage({jsonrpc: '2.0', id: 3, method: 'get', params: [{type: 'scriptObject', scriptObject: 10}, 'historyService']});
+    tracer.onIncomingMessage({jsonrpc: '2.0', id: 3, result: {type: 'scriptObject', scriptObject: 1}});
+    tracer.onOutgoingMessage({jsonrpc: '2.0', id: 4, method: 'execute', params: [
+      {type: 'scriptObject', scriptObject: 10},
+      'createCall',
+      '1001',
+      {type: 'scriptObject', scriptObject: 1},
+    ]});
+    tracer.onIncomingMessage({jsonrpc: '2.0', id: 1000, method: 'callback', params: [{type: 'scriptObject', scriptObject: 1}, 0]});
+    expect(entries[3].origin).to.include({requestId: 4, memberName: 'createCall'});
+  });
+
+  it('forgets requests left without a response', () => {
+    const tracer = new Tracer();
+    const entries: TraceEntry[] = [];
+    tracer.onTrace = (entry) => entries.push(entry);
+
+    for (let id = 1; id <= 1001; id++) {
+      tracer.onOutgoingMessage({jsonrpc: '2.0', id, method: 'get', params: [{type: 'scriptObject', scriptObject: 10}, 'versionPhone']});
+    }
+
+    tracer.onIncomingMessage({jsonrpc: '2.0', id: 1, result: '5.1.0'});
+    tracer.onIncomingMessage({jsonrpc: '2.0', id: 1001, result: '5.1.0'});
+    expect(entries.slice(-2).map(({method, memberName}) => [method, memberName])).to.deep.equal([
+      [undefined, undefined],
+      ['get', 'versionPhone'],
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {ConnectionManager} from '../src/connection-manager';
+import {RPCManager} from '../src/rpc-manager';
+import {LoopbackEndpoint, LoopbackTransport} from '../src/transports/loopback-transport';
+import {NodeWebSocketTransport} from '../src/transports/node-websocket-transport';
+
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+describe('LoopbackTransport', () => {
+  it('exchanges messages in order', async () => {
+    const received: string[] = [];
+    const transport = new LoopbackTransport((endpoint) => {
+      endpoint.onMessage = (message) => endpoint.send(message.toUpperCase());
+    });
+    transport.onMessage = (message) => received.push(message);
+    await transport.open();
+    transport.send('foo');
+    transport.send('bar');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(received).to.deep.equal(['FOO', 'BAR']);
+  });
+
+  it('closes both sides', async () => {
+    let endpoint: LoopbackEndpoint;
+    let isEndpointClosed = false;
+    const transport = new LoopbackTransport((newEndpoint) => {
+      endpoint = newEndpoint;
+      endpoint.onClose = () => isEndpointClosed = true;
+    });
+    const closed = new Promise((resolve) => transport.onClose = resolve);
+    await transport.open();
+    transport.close();
+    expect(await closed).to.include({code: 1000, wasClean: true});
+    expect(isEndpointClosed).to.be.true;
+    expect(() => endpoint.send('foo')).to.throw();
+  });
+
+  it('connects the managers', async () => {
+    const rpcManager = new RPCManager({}, {loadConstants: false});
+    const connectionManager = new ConnectionManager(rpcManager, {
+      transport: new LoopbackTransport((endpoint) => {
+        endpoint.onMessage = (message) => {
+          const {id, method} = JSON.parse(message);
+          const result = method === 'getRootObject' ? {type: 'scriptObject', scriptObject: 1} : [];
+          endpoint.send(JSON.stringify({jsonrpc: '2.0', id, result}));
+        };
+      }),
+    });
+    await connectionManager.openConnection();
+    const rootObject = await rpcManager.initialize('valid token');
+    expect(rootObject).to.be.empty;
+    const closed = new Promise((resolve) => connectionManager.onClose = resolve);
+    connectionManager.closeConnection();
+    await closed;
+    expect(connectionManager.state).to.equal('closed');
+  });
+});
+
+describe('NodeWebSocketTransport', () => {
+  it('uses the provided WebSocket class', async () => {
+    const received: string[] = [];
+    let socket: FakeNodeWebSocket;
+
+    class FakeNodeWebSocket {
+      onopen: (() => void) | null = null;
+      onclose: ((event: unknown) => void) | null = null;
+      onerror: (() => void) | null = null;
+      onmessage: ((event: {data: unknown}) => void) | null = null;
+      sent: string[] = [];
+
+      constructor(public url: string, public protocols?: string | string[]) {
+        socket = this;
+        setTimeout(() => this.onopen?.(), 0);
+      }
+
+      send(message: string): void {
+        this.sent.push(message);
+      }
+
+      close(): void {
+        this.onclose?.({code: 1000, reason: '', wasClean: true});
+      }
+    }
+
+    const transport = new NodeWebSocketTransport('ws://localhost', FakeNodeWebSocket);
+    transport.onMessage = (message) => received.push(message);
+    await transport.open();
+    expect(socket!).to.include({url: 'ws://localhost', protocols: 'text'});
+    transport.send('foo');
+    socket!.onmessage!({data: Buffer.from('bar')});
+    socket!.onmessage!({data: new TextEncoder().encode('baz').buffer});
+    expect(socket!.sent).to.deep.equal(['foo']);
+    expect(received).to.deep.equal(['bar', 'baz']);
+  });
+});
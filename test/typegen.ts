@@ -0,0 +1,112 @@
+import chai from 'chai';
+import chaiAsPromised from 'chai-as-promised';
+import {ConnectionManager} from '../src/connection-manager';
+import {RPCManager} from '../src/rpc-manager';
+import {MockPhone} from '../src/testing/mock-phone';
+import {MockServer} from '../src/testing/mock-server';
+import {generateDeclarations} from '../src/typegen/declarations';
+import {introspect, mergeIntrospectionDumps} from '../src/typegen/introspect';
+import {createApiSnapshot, diffApiSnapshots, formatApiSnapshotDiff, listApiMembers} from '../src/typegen/snapshot';
+
+chai.use(chaiAsPromised);
+
+const expect = chai.expect;
+
+describe('introspect', () => {
+  it('describes the reachable objects', async () => {
+    const phone = new MockPhone();
+    const server = new MockServer({root: phone.root});
+    const rpcManager = new RPCManager({});
+    const connectionManager = new ConnectionManager(rpcManager, {transport: server.createTransport()});
+    await connectionManager.openConnection();
+    const dump = await introspect(await rpcManager.initialize('valid token'), {maxDepth: 1});
+    connectionManager.closeConnection();
+    expect(dump.objects['']).to.deep.include({
+      methods: ['registerCallback', 'saveOptions', 'createCall'],
+    });
+    expect(dump.objects[''].properties).to.deep.include({
+      versionPhone: ['string'],
+      activeCall: ['null'],
+      optionsGeneral: [{object: 'optionsGeneral'}],
+    });
+    expect(dump.objects.optionsGeneral).to.deep.equal({properties: {recordCalls: ['boolean']}, methods: ['apply']});
+    expect(dump.objects).to.have.property('constants');
+    expect(dump.objects).not.to.have.property('accounts.defaultAccount');
+  });
+});
+
+describe('generateDeclarations', () => {
+  it('generates interfaces', () => {
+    const dump = mergeIntrospectionDumps({
+      objects: {
+        '': {properties: {versionPhone: ['string'], activeCall: ['null']}, methods: []},
+      },
+    }, {
+      objects: {
+        '': {properties: {activeCall: [{object: 'activeCall'}], 'is-valid': []}, methods: ['createCall']},
+        'activeCall': {properties: {contact: [{object: 'activeCall.contact'}]}, methods: ['hangup']},
+      },
+    });
+    expect(generateDeclarations(dump)).to.equal([
+      '// Generated from the Zoiper5 RPC API introspection',
+      '',
+      'export interface Phone {',
+      '  versionPhone: Promise<string>;',
+      '  activeCall: Promise<null | PhoneActiveCall>;',
+      '  "is-valid": Promise<unknown>;',
+      '  createCall(...args: any[]): Promise<any>;',
+      '}',
+      '',
+      'export interface PhoneActiveCall {',
+      '  contact: Promise<any>;',
+      '  hangup(...args: any[]): Promise<any>;',
+      '}',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('API snapshots', () => {
+  it('records the version', async () => {
+    const phone = new MockPhone({versionPhone: '5.6.0'});
+    const rpcManager = new RPCManager({});
+    const connectionManager = new ConnectionManager(rpcManager, {transport: new MockServer({root: phone.root}).createTransport()});
+    await connectionManager.openConnection();
+    const snapshot = await createApiSnapshot(await rpcManager.initialize('valid token'), {maxDepth: 1});
+    connectionManager.closeConnection();
+    expect(snapshot.versionPhone).to.equal('5.6.0');
+    expect(listApiMembers(snapshot)).to.deep.include.members([
+      {path: 'createCall', kind: 'method'},
+      {path: 'optionsGeneral.recordCalls', kind: 'property'},
+    ]);
+  });
+
+  it('lists the added and removed members', () => {
+    const diff = diffApiSnapshots({
+      versionPhone: '5.5.0',
+      objects: {
+        '': {properties: {versionPhone: ['string'], optionsGeneral: [{object: 'optionsGeneral'}]}, methods: ['createCall']},
+        'optionsGeneral': {properties: {recordCalls: ['boolean']}, methods: []},
+      },
+    }, {
+      versionPhone: '5.6.0',
+      objects: {
+        '': {properties: {versionPhone: ['string'], optionsGeneral: [{object: 'optionsGeneral'}]}, methods: ['dial']},
+        'optionsGeneral': {properties: {recordCalls: ['boolean'], autoAnswer: ['boolean']}, methods: []},
+      },
+    });
+    expect(diff).to.deep.equal({
+      fromVersion: '5.5.0',
+      toVersion: '5.6.0',
+      added: [{path: 'dial', kind: 'method'}, {path: 'optionsGeneral.autoAnswer', kind: 'property'}],
+      removed: [{path: 'createCall', kind: 'method'}],
+    });
+    expect(formatApiSnapshotDiff(diff)).to.equal([
+      '5.5.0 -> 5.6.0:',
+      '- method createCall',
+      '+ method dial',
+      '+ property optionsGeneral.autoAnswer',
+    ].join('\n'));
+    expect(formatApiSnapshotDiff(diffApiSnapshots({objects: {}}, {objects: {}}))).to.equal('unknown -> unknown:\nno changes');
+  });
+});
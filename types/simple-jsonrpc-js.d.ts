@@ -7,6 +7,7 @@ declare module 'simple-jsonrpc-js' {
     call(method: string, params?: any): Promise<any>;
     notification(method: string, params?: any): void;
     messageHandler(rawMessage: string): Promise<any>;
+    customException(code: number, message: string, data?: any): Error;
   }
 
   const simple_jsonrpc: {